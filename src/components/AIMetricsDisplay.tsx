@@ -1,25 +1,44 @@
 "use client";
 
-import { AIMetrics, Difficulty } from "@/types/game";
+import { AIAlgorithm, AIMetrics, AIProgress, Difficulty } from "@/types/game";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Brain, Clock, Target, TrendingUp } from "lucide-react";
+import { describeMove } from "@/utils/aiLevels";
+import {
+  CLASSIC_WIN_SCORE,
+  MAX_EVALUATION,
+  WINNING_EVALUATION,
+} from "@/utils/evaluation";
 
 interface AIMetricsDisplayProps {
   aiMetrics: AIMetrics;
   difficulty: Difficulty;
+  algorithm: AIAlgorithm;
   isAIThinking: boolean;
+  progress?: AIProgress | null; // Streamed while the AI is thinking
 }
 
+// Badge colors of the levels that show analytics
+const LEVEL_COLORS: Record<Exclude<Difficulty, "easy">, string> = {
+  medium:
+    "text-yellow-800 bg-yellow-100 dark:bg-yellow-900 dark:text-yellow-300",
+  strong:
+    "text-orange-800 bg-orange-100 dark:bg-orange-900 dark:text-orange-300",
+  hard: "text-red-800 bg-red-100 dark:bg-red-900 dark:text-red-300",
+};
+
 export function AIMetricsDisplay({
   aiMetrics,
   difficulty,
+  algorithm,
   isAIThinking,
+  progress,
 }: AIMetricsDisplayProps) {
   const getScoreInterpretation = (
     score: number
   ): { text: string; color: string } => {
-    if (score > 5) {
+    if (score >= WINNING_EVALUATION) {
       return { text: "Winning", color: "text-green-600 dark:text-green-400" };
     } else if (score > 0) {
       return { text: "Advantage", color: "text-blue-600 dark:text-blue-400" };
@@ -31,6 +50,10 @@ export function AIMetricsDisplay({
   };
 
   const scoreInterpretation = getScoreInterpretation(aiMetrics.lastMoveScore);
+  // The search running now follows the settings; the last one is told
+  // apart by its playouts
+  const isMonteCarlo = algorithm === "mcts";
+  const wasMonteCarlo = aiMetrics.simulations > 0;
 
   if (difficulty === "easy") {
     return (
@@ -75,11 +98,8 @@ export function AIMetricsDisplay({
         <CardTitle className="flex items-center gap-2 text-lg">
           <Brain className="w-5 h-5" />
           AI Analytics
-          <Badge
-            variant="secondary"
-            className="text-red-800 bg-red-100 dark:bg-red-900 dark:text-red-300"
-          >
-            HARD
+          <Badge variant="secondary" className={LEVEL_COLORS[difficulty]}>
+            {difficulty.toUpperCase()}
           </Badge>
         </CardTitle>
       </CardHeader>
@@ -91,8 +111,21 @@ export function AIMetricsDisplay({
               Analyzing positions...
             </div>
             <div className="text-xs text-gray-500 dark:text-gray-400">
-              Using minimax algorithm with alpha-beta pruning
+              {isMonteCarlo
+                ? "Playing games out with Monte Carlo tree search"
+                : "Using minimax algorithm with alpha-beta pruning"}
             </div>
+            {progress && (
+              <div className="space-y-1 text-xs text-gray-600 dark:text-gray-300">
+                <div>
+                  Positions so far:{" "}
+                  {progress.positionsEvaluated.toLocaleString()}
+                </div>
+                {progress.bestMove && (
+                  <div>Best so far: {describeMove(progress.bestMove)}</div>
+                )}
+              </div>
+            )}
           </div>
         ) : (
           <>
@@ -119,7 +152,9 @@ export function AIMetricsDisplay({
                       variant="outline"
                       className={scoreInterpretation.color}
                     >
-                      {scoreInterpretation.text}
+                      {aiMetrics.forcedWin
+                        ? "Forced win"
+                        : scoreInterpretation.text}
                     </Badge>
                   </div>
                 </div>
@@ -160,17 +195,59 @@ export function AIMetricsDisplay({
                         : "0"}{" "}
                       positions/sec
                     </div>
-                    <div>Algorithm: Minimax with α-β pruning</div>
+                    {wasMonteCarlo && (
+                      <div>
+                        Playouts: {aiMetrics.simulations.toLocaleString()}
+                      </div>
+                    )}
+                    {aiMetrics.depthReached > 0 && (
+                      <div>Depth reached: {aiMetrics.depthReached} plies</div>
+                    )}
+                    <div>
+                      Transposition hits:{" "}
+                      {Math.round(aiMetrics.ttHitRate * 100)}%
+                    </div>
+                    <div>
+                      Algorithm:{" "}
+                      {wasMonteCarlo
+                        ? "Monte Carlo tree search (UCT)"
+                        : "Iterative deepening minimax with α-β pruning"}
+                    </div>
                   </div>
                 </div>
 
+                {/* Most Visited Moves */}
+                {aiMetrics.moveStats.length > 0 && (
+                  <div className="space-y-1">
+                    <div className="text-sm font-medium">
+                      Most Visited Moves
+                    </div>
+                    {aiMetrics.moveStats.map(({ move, visits, winRate }) => (
+                      <div
+                        key={describeMove(move)}
+                        className="flex justify-between text-xs text-gray-500 dark:text-gray-400"
+                      >
+                        <span>{describeMove(move)}</span>
+                        <span>
+                          {visits.toLocaleString()} visits,{" "}
+                          {Math.round(winRate * 100)}% wins
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {/* Score Explanation */}
                 <div className="p-2 mt-3 text-xs rounded bg-gray-50 dark:bg-gray-800">
                   <div className="mb-1 font-medium">Score Guide:</div>
                   <div className="space-y-0.5 text-gray-600 dark:text-gray-400">
-                    <div>+10: AI can win</div>
-                    <div>0: Draw or neutral</div>
-                    <div>-10: Player can win</div>
+                    <div>
+                      Above {MAX_EVALUATION}: decided game (a win scores{" "}
+                      {CLASSIC_WIN_SCORE}, less the moves it takes)
+                    </div>
+                    <div>{WINNING_EVALUATION} or more: AI is winning</div>
+                    <div>0: Equal</div>
+                    <div>Below 0: Opponent is better (same scale)</div>
                   </div>
                 </div>
               </div>
@@ -6,15 +6,25 @@ import { Badge } from "@/components/ui/badge";
 import { useState } from "react";
 
 interface BoardSizeSelectorProps {
-  currentSize: BoardSize;
-  onSizeChange: (size: BoardSize) => void;
+  currentWidth: BoardSize;
+  currentHeight: BoardSize;
+  onSizeChange: (width: BoardSize, height: BoardSize) => void;
 }
 
 export function BoardSizeSelector({
-  currentSize,
+  currentWidth,
+  currentHeight,
   onSizeChange,
 }: BoardSizeSelectorProps) {
-  const [customSize, setCustomSize] = useState<string>(currentSize.toString());
+  const [customWidth, setCustomWidth] = useState<string>(
+    currentWidth.toString()
+  );
+  const [customHeight, setCustomHeight] = useState<string>(
+    currentHeight.toString()
+  );
+
+  const isCurrentSquare = (size: BoardSize) =>
+    currentWidth === size && currentHeight === size;
 
   return (
     <div className="space-y-3">
@@ -24,7 +34,7 @@ export function BoardSizeSelector({
           variant="secondary"
           className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300"
         >
-          {currentSize}x{currentSize}
+          {currentWidth}x{currentHeight}
         </Badge>
       </div>
 
@@ -33,9 +43,9 @@ export function BoardSizeSelector({
         {([3, 4, 5, 6] as BoardSize[]).map((size) => (
           <Button
             key={size}
-            variant={currentSize === size ? "default" : "outline"}
+            variant={isCurrentSquare(size) ? "default" : "outline"}
             size="sm"
-            onClick={() => onSizeChange(size)}
+            onClick={() => onSizeChange(size, size)}
             className="text-xs"
           >
             {size}x{size}
@@ -48,9 +58,9 @@ export function BoardSizeSelector({
         {([7, 8, 9, 10] as BoardSize[]).map((size) => (
           <Button
             key={size}
-            variant={currentSize === size ? "default" : "outline"}
+            variant={isCurrentSquare(size) ? "default" : "outline"}
             size="sm"
-            onClick={() => onSizeChange(size)}
+            onClick={() => onSizeChange(size, size)}
             className="text-xs"
           >
             {size}x{size}
@@ -61,24 +71,37 @@ export function BoardSizeSelector({
       {/* Custom Size Input */}
       <div className="space-y-2">
         <label className="text-xs font-medium text-gray-600 dark:text-gray-400">
-          Custom Size (3-10):
+          Custom Size - width x height (3-10 each):
         </label>
-        <div className="flex gap-2">
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min="3"
+            max="10"
+            value={customWidth}
+            onChange={(e) => setCustomWidth(e.target.value)}
+            className="flex-1 min-w-0 h-8 px-2 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            placeholder="Width"
+            aria-label="Board width"
+          />
+          <span className="text-xs text-gray-500 dark:text-gray-400">x</span>
           <input
             type="number"
             min="3"
             max="10"
-            value={customSize}
-            onChange={(e) => setCustomSize(e.target.value)}
-            className="flex-1 h-8 px-2 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
-            placeholder="3-10"
+            value={customHeight}
+            onChange={(e) => setCustomHeight(e.target.value)}
+            className="flex-1 min-w-0 h-8 px-2 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            placeholder="Height"
+            aria-label="Board height"
           />
           <Button
             size="sm"
             onClick={() => {
-              const size = parseInt(customSize);
-              if (size >= 3 && size <= 10) {
-                onSizeChange(size as BoardSize);
+              const width = parseInt(customWidth);
+              const height = parseInt(customHeight);
+              if (width >= 3 && width <= 10 && height >= 3 && height <= 10) {
+                onSizeChange(width as BoardSize, height as BoardSize);
               }
             }}
             className="text-xs px-3"
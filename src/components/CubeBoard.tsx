@@ -0,0 +1,164 @@
+"use client";
+
+import { Cell, Cube, CubeWinningLine } from "@/types/game";
+import { getCubeSize, isCubeWinningPosition } from "@/utils/cubeLogic";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface CubeBoardProps {
+  cube: Cube;
+  onCellClick: (layer: number, row: number, col: number) => void;
+  isPlayerTurn: boolean;
+  isAIThinking: boolean;
+  winningLine: CubeWinningLine | null;
+  disabled?: boolean;
+}
+
+export function CubeBoard({
+  cube,
+  onCellClick,
+  isPlayerTurn,
+  isAIThinking,
+  winningLine,
+  disabled = false,
+}: CubeBoardProps) {
+  const size = getCubeSize(cube);
+  const canPlay = !disabled && isPlayerTurn && !isAIThinking;
+
+  const handleCellClick = (
+    layer: number,
+    row: number,
+    col: number,
+    cell: Cell
+  ) => {
+    if (!canPlay || cell !== null) {
+      return;
+    }
+    onCellClick(layer, row, col);
+  };
+
+  const getCellClasses = (
+    layer: number,
+    row: number,
+    col: number,
+    cell: Cell
+  ) => {
+    const isWinning = isCubeWinningPosition(layer, row, col, winningLine);
+    const isClickable = canPlay && cell === null;
+
+    return cn(
+      size <= 3
+        ? "h-10 w-10 sm:h-12 sm:w-12 text-xl sm:text-2xl"
+        : "h-8 w-8 sm:h-10 sm:w-10 text-lg sm:text-xl",
+      "p-0 font-bold rounded-sm",
+      "border-2 border-gray-300 dark:border-gray-600",
+      "flex items-center justify-center",
+      "transition-all duration-200 ease-in-out",
+
+      isClickable && [
+        "hover:bg-gray-100 dark:hover:bg-gray-800",
+        "hover:border-blue-400",
+        "cursor-pointer",
+        "active:scale-95",
+      ],
+
+      // Winning line highlight (spans several layers for 3D lines)
+      isWinning && [
+        "bg-green-100 dark:bg-green-900/30",
+        "border-green-500",
+        "animate-pulse",
+      ],
+
+      cell === "X" && [
+        "text-blue-600 dark:text-blue-400",
+        !isWinning && "bg-blue-50 dark:bg-blue-950/30",
+      ],
+      cell === "O" && [
+        "text-red-600 dark:text-red-400",
+        !isWinning && "bg-red-50 dark:bg-red-950/30",
+      ]
+    );
+  };
+
+  return (
+    <div className="flex flex-col items-center space-y-6">
+      {/* Game Status */}
+      <div className="text-center">
+        {isAIThinking ? (
+          <div className="flex items-center justify-center space-x-2">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+            <span className="text-lg font-medium text-gray-600 dark:text-gray-300">
+              AI is thinking...
+            </span>
+          </div>
+        ) : (
+          <div className="text-lg font-medium">
+            {isPlayerTurn ? (
+              <span className="text-blue-600 dark:text-blue-400">
+                Your turn
+              </span>
+            ) : (
+              <span className="text-red-600 dark:text-red-400">
+                AI&apos;s turn
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Layers side by side, top layer first */}
+      <div
+        className="flex flex-wrap justify-center gap-4"
+        role="grid"
+        aria-label={`${size}x${size}x${size} 3D TicTacToe game board`}
+      >
+        {cube.map((board, layer) => (
+          <div key={layer} className="flex flex-col items-center space-y-2">
+            <span className="text-xs font-medium text-gray-500 dark:text-gray-400">
+              Layer {layer + 1}
+            </span>
+            <div
+              className="grid gap-1 p-2 bg-gray-200 dark:bg-gray-700 rounded-lg shadow-md"
+              style={{ gridTemplateColumns: `repeat(${size}, minmax(0, 1fr))` }}
+            >
+              {board.map((cells, row) =>
+                cells.map((cell, col) => (
+                  <Button
+                    key={`${row}-${col}`}
+                    variant="ghost"
+                    className={getCellClasses(layer, row, col, cell)}
+                    onClick={() => handleCellClick(layer, row, col, cell)}
+                    disabled={!canPlay || cell !== null}
+                    role="gridcell"
+                    aria-label={
+                      cell
+                        ? `Layer ${layer + 1}, cell ${row + 1}, ${
+                            col + 1
+                          }, occupied by ${cell}`
+                        : `Layer ${layer + 1}, cell ${row + 1}, ${
+                            col + 1
+                          }, empty`
+                    }
+                  >
+                    <span className="select-none">{cell ?? ""}</span>
+                  </Button>
+                ))
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Game Instructions */}
+      <div className="text-sm text-gray-500 dark:text-gray-400 text-center max-w-md">
+        {canPlay &&
+          `Get ${size} in a row in any direction - lines may run through the layers, including the space diagonals`}
+        {!isPlayerTurn &&
+          !isAIThinking &&
+          !disabled &&
+          "Wait for the AI to make its move"}
+        {disabled && "Game over - Start a new game to play again"}
+      </div>
+    </div>
+  );
+}
@@ -1,39 +1,197 @@
 "use client";
 
-import { Board, Player, WinningLine } from "@/types/game";
-import { isWinningPosition } from "@/utils/gameLogic";
+import { useState } from "react";
+import {
+  BLOCKED_CELL,
+  Board,
+  Cell,
+  Move,
+  Player,
+  QuantumMark,
+  QuantumState,
+  WinningLine,
+} from "@/types/game";
+import {
+  getAvailableNumbers,
+  getBoardDimensions,
+  getDefaultWinLength,
+  getDropRow,
+  getNumberOwner,
+  isWinningPosition,
+  isWrappedLine,
+} from "@/utils/gameLogic";
+import { getOpenCells, isQuantumCellOpen } from "@/utils/quantumLogic";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 
 interface GameBoardProps {
   board: Board;
-  onCellClick: (row: number, col: number) => void;
+  onCellClick: (
+    row: number,
+    col: number,
+    mark?: Pick<Move, "symbol" | "value" | "pair" | "collapse">
+  ) => void;
   isPlayerTurn: boolean;
   isAIThinking: boolean;
   winningLine: WinningLine | null;
+  winLength?: number;
+  misere?: boolean;
+  gravity?: boolean;
+  wild?: boolean; // Shows a picker for the mark to place
+  expiringMark?: Move | null; // Mark removed by the next move (sliding games)
+  numberTarget?: number; // Numerical games: shows the player's number picker
+  playerSymbol?: Player; // Shown as the drop preview in gravity mode
+  toroidal?: boolean; // Edges join up, so lines may wrap around them
+  currentPlayer?: Player; // Named in the turn indicator (3-4 player games)
+  quantum?: QuantumState | null; // Quantum mode: spooky marks and collapses
+  forbiddenMoves?: Move[]; // Renju: cells X may not take this turn
   disabled?: boolean;
 }
 
+// Text colour of each player's marks
+const PLAYER_TEXT_COLORS: Record<Player, string> = {
+  X: "text-blue-600 dark:text-blue-400",
+  O: "text-red-600 dark:text-red-400",
+  Δ: "text-purple-600 dark:text-purple-400",
+  "□": "text-amber-600 dark:text-amber-400",
+};
+
+// A quantum mark with its move number as a subscript
+function QuantumMarkLabel({ mark }: { mark: QuantumMark }) {
+  return (
+    <span className={PLAYER_TEXT_COLORS[mark.player]}>
+      {mark.player}
+      <sub className="text-[0.55em] font-semibold">{mark.move}</sub>
+    </span>
+  );
+}
+
 export function GameBoard({
   board,
   onCellClick,
   isPlayerTurn,
   isAIThinking,
   winningLine,
+  winLength,
+  misere = false,
+  gravity = false,
+  wild = false,
+  expiringMark = null,
+  numberTarget,
+  playerSymbol,
+  toroidal = false,
+  currentPlayer,
+  quantum = null,
+  forbiddenMoves = [],
   disabled = false,
 }: GameBoardProps) {
+  const [hoveredCol, setHoveredCol] = useState<number | null>(null);
+  // First cell of a quantum move, waiting for its partner
+  const [selectedCell, setSelectedCell] = useState<[number, number] | null>(
+    null
+  );
+  const [selectedSymbol, setSelectedSymbol] = useState<Player>(
+    playerSymbol ?? "X"
+  );
+  const [selectedNumber, setSelectedNumber] = useState<number | null>(null);
+  // Mark the next click places (the player's own unless playing wild)
+  const placedSymbol = wild ? selectedSymbol : playerSymbol;
+  // Numbers still in the player's hand; falls back to the first one once
+  // the selected number has been used
+  const playerNumbers =
+    numberTarget && playerSymbol
+      ? getAvailableNumbers(board, playerSymbol)
+      : [];
+  const placedNumber =
+    selectedNumber !== null && playerNumbers.includes(selectedNumber)
+      ? selectedNumber
+      : playerNumbers[0];
+  const { width, height } = getBoardDimensions(board);
+  // Cell sizing follows the longer side so rectangular boards still fit
+  const boardSize = Math.max(width, height);
+  const canPlay = !disabled && isPlayerTurn && !isAIThinking;
+  // A line that wraps around an edge looks like scattered cells, so its
+  // cells are numbered in line order
+  const wrappedLine =
+    toroidal && winningLine && isWrappedLine(winningLine) ? winningLine : null;
+
+  const getWrappedLineIndex = (row: number, col: number) =>
+    wrappedLine
+      ? wrappedLine.findIndex(([r, c]) => r === row && c === col)
+      : -1;
+
+  const pendingCollapse = quantum?.pendingCollapse ?? null;
+  // With a single open cell left the last quantum mark is placed whole
+  const isFinalQuantumMark =
+    quantum !== null && !pendingCollapse && getOpenCells(quantum).length === 1;
+
+  const isInCells = (cells: [number, number][], row: number, col: number) =>
+    cells.some(([r, c]) => r === row && c === col);
+
+  // A selection left over from an earlier turn or game doesn't count
+  const activeCell =
+    quantum && canPlay && !pendingCollapse ? selectedCell : null;
+
+  const isForbidden = (row: number, col: number) =>
+    forbiddenMoves.some((move) => move.row === row && move.col === col);
+
+  const isSelected = (row: number, col: number) =>
+    activeCell?.[0] === row && activeCell?.[1] === col;
+
+  // With gravity any cell of a column that still has room drops a mark
+  // (unless Renju forbids where it lands); quantum marks go in any cell
+  // that hasn't collapsed, and a pending collapse picks one of its two
+  // cells
+  const isCellPlayable = (row: number, col: number) => {
+    if (quantum) {
+      return pendingCollapse
+        ? isInCells(pendingCollapse.cells, row, col)
+        : isQuantumCellOpen(quantum, row, col);
+    }
+    if (gravity) {
+      const dropRow = getDropRow(board, col);
+      return dropRow !== null && !isForbidden(dropRow, col);
+    }
+    return board[row][col] === null && !isForbidden(row, col);
+  };
+
+  const isDropPreview = (row: number, col: number) =>
+    gravity && canPlay && hoveredCol === col && getDropRow(board, col) === row;
+
+  const isExpiring = (row: number, col: number) =>
+    expiringMark?.row === row && expiringMark?.col === col;
+
   const handleCellClick = (row: number, col: number) => {
-    if (disabled || !isPlayerTurn || isAIThinking || board[row][col] !== null) {
+    if (!canPlay || !isCellPlayable(row, col)) {
+      return;
+    }
+
+    if (quantum && pendingCollapse) {
+      onCellClick(row, col, { collapse: true });
+      return;
+    }
+    if (quantum && !isFinalQuantumMark) {
+      // A spooky mark takes two clicks; clicking the first cell again
+      // deselects it
+      if (!activeCell || isSelected(row, col)) {
+        setSelectedCell(activeCell ? null : [row, col]);
+        return;
+      }
+      setSelectedCell(null);
+      onCellClick(row, col, { symbol: placedSymbol, pair: activeCell });
       return;
     }
-    onCellClick(row, col);
+
+    onCellClick(row, col, { symbol: placedSymbol, value: placedNumber });
   };
 
-  const getCellClasses = (row: number, col: number, cell: Player | null) => {
+  const getCellClasses = (row: number, col: number, cell: Cell) => {
     const isWinning = isWinningPosition(row, col, winningLine);
     const isEmpty = cell === null;
-    const isClickable = isEmpty && isPlayerTurn && !isAIThinking && !disabled;
-    const boardSize = board.length;
+    const isBlocked = cell === BLOCKED_CELL;
+    // Numbers are coloured by the player who owns them
+    const owner = typeof cell === "number" ? getNumberOwner(cell) : cell;
+    const isClickable = canPlay && isCellPlayable(row, col);
 
     return cn(
       // Base styles - dynamic sizing based on board size
@@ -60,50 +218,153 @@ export function GameBoard({
       "transition-all duration-200 ease-in-out",
       "relative overflow-hidden",
 
-      // Hover and click states
-      isClickable && [
-        "hover:bg-gray-100 dark:hover:bg-gray-800",
-        "hover:border-blue-400",
-        "cursor-pointer",
-        "active:scale-95",
-      ],
+      // Hover and click states (whole column in gravity mode)
+      isClickable &&
+        !gravity && [
+          "hover:bg-gray-100 dark:hover:bg-gray-800",
+          "hover:border-blue-400",
+          "cursor-pointer",
+          "active:scale-95",
+        ],
+      isClickable && gravity && "cursor-pointer",
+      isClickable &&
+        gravity &&
+        hoveredCol === col && [
+          "border-blue-400",
+          isEmpty && "bg-gray-100 dark:bg-gray-800",
+        ],
 
       // Disabled state
       !isClickable && isEmpty && ["cursor-not-allowed", "opacity-60"],
 
-      // Winning position highlight
-      isWinning && [
-        "bg-green-100 dark:bg-green-900/30",
-        "border-green-500",
-        "animate-pulse",
-      ],
+      // Winning position highlight (the losing line under misère rules)
+      isWinning &&
+        !misere && [
+          "bg-green-100 dark:bg-green-900/30",
+          "border-green-500",
+          "animate-pulse",
+        ],
+      isWinning &&
+        misere && [
+          "bg-orange-100 dark:bg-orange-900/30",
+          "border-orange-500",
+          "animate-pulse",
+        ],
 
       // Player X styling
-      cell === "X" && [
+      owner === "X" && [
         "text-blue-600 dark:text-blue-400",
         !isWinning && "bg-blue-50 dark:bg-blue-950/30",
       ],
 
       // Player O styling
-      cell === "O" && [
+      owner === "O" && [
         "text-red-600 dark:text-red-400",
         !isWinning && "bg-red-50 dark:bg-red-950/30",
       ],
 
+      // Player Δ and □ styling (3-4 player games)
+      owner === "Δ" && [
+        "text-purple-600 dark:text-purple-400",
+        !isWinning && "bg-purple-50 dark:bg-purple-950/30",
+      ],
+      owner === "□" && [
+        "text-amber-600 dark:text-amber-400",
+        !isWinning && "bg-amber-50 dark:bg-amber-950/30",
+      ],
+
+      // Blocked cells on shaped boards
+      isBlocked && [
+        "bg-gray-400 dark:bg-gray-900",
+        "border-gray-400 dark:border-gray-900",
+      ],
+
+      // Mark about to vanish in sliding games
+      !isEmpty && isExpiring(row, col) && "border-dashed opacity-50",
+
+      // Renju: a cell X may not take
+      isForbidden(row, col) && [
+        "border-dashed border-rose-400",
+        "bg-rose-50 dark:bg-rose-950/30",
+      ],
+
+      // Quantum: first cell of the move being placed, the cycle waiting to
+      // collapse and the two cells the collapse chooses between
+      isSelected(row, col) && "border-blue-500 bg-blue-100 dark:bg-blue-900/40",
+      pendingCollapse &&
+        isInCells(pendingCollapse.cycle, row, col) &&
+        "border-dashed border-indigo-400",
+      pendingCollapse &&
+        isInCells(pendingCollapse.cells, row, col) && [
+          "border-solid border-amber-500",
+          "bg-amber-50 dark:bg-amber-950/30",
+          isClickable && "animate-pulse",
+        ],
+
       // Border radius for grid corners - dynamic based on board size
       row === 0 && col === 0 && "rounded-tl-lg",
-      row === 0 && col === boardSize - 1 && "rounded-tr-lg",
-      row === boardSize - 1 && col === 0 && "rounded-bl-lg",
-      row === boardSize - 1 && col === boardSize - 1 && "rounded-br-lg"
+      row === 0 && col === width - 1 && "rounded-tr-lg",
+      row === height - 1 && col === 0 && "rounded-bl-lg",
+      row === height - 1 && col === width - 1 && "rounded-br-lg"
     );
   };
 
-  const getCellContent = (cell: Player | null) => {
-    if (cell === null) return "";
+  const getCellContent = (row: number, col: number, cell: Cell) => {
+    const quantumCell = quantum?.cells[row][col];
+    if (quantumCell?.classical) {
+      return (
+        <span className="relative z-10 select-none">
+          <QuantumMarkLabel mark={quantumCell.classical} />
+        </span>
+      );
+    }
+    if (quantumCell) {
+      return (
+        <span className="relative z-10 select-none flex flex-wrap justify-center gap-x-1 text-xs sm:text-sm font-semibold opacity-80 px-1">
+          {quantumCell.spooky.map((mark) => (
+            <QuantumMarkLabel key={mark.move} mark={mark} />
+          ))}
+        </span>
+      );
+    }
+
+    if (cell === null && isForbidden(row, col)) {
+      return (
+        <span className="relative z-10 select-none text-rose-400 opacity-70">
+          ✕
+        </span>
+      );
+    }
+    if (cell === null) {
+      // Faded mark where the drop would land
+      const previewMark = numberTarget ? placedNumber : placedSymbol;
+      if (previewMark !== undefined && isDropPreview(row, col)) {
+        return (
+          <span className="relative z-10 select-none opacity-30">
+            {previewMark}
+          </span>
+        );
+      }
+      return "";
+    }
+    if (cell === BLOCKED_CELL) {
+      return "";
+    }
 
     return <span className="relative z-10 select-none">{cell}</span>;
   };
 
+  const getQuantumCellLabel = (row: number, col: number) => {
+    const quantumCell = quantum!.cells[row][col];
+    const name = (mark: QuantumMark) => `${mark.player}${mark.move}`;
+    if (quantumCell.classical) {
+      return `collapsed to ${name(quantumCell.classical)}`;
+    }
+    return quantumCell.spooky.length > 0
+      ? `spooky marks ${quantumCell.spooky.map(name).join(", ")}`
+      : "empty";
+  };
+
   return (
     <div className="flex flex-col items-center space-y-6">
       {/* Game Status */}
@@ -119,36 +380,99 @@ export function GameBoard({
           <div className="text-lg font-medium">
             {isPlayerTurn ? (
               <span className="text-blue-600 dark:text-blue-400">
-                Your turn
+                Your turn{currentPlayer && ` (${currentPlayer})`}
               </span>
             ) : (
               <span className="text-red-600 dark:text-red-400">
-                AI&apos;s turn
+                AI&apos;s turn{currentPlayer && ` (${currentPlayer})`}
               </span>
             )}
           </div>
         )}
       </div>
 
+      {/* Wild symbol picker */}
+      {wild && (
+        <div className="flex items-center space-x-2">
+          <span className="text-sm text-gray-600 dark:text-gray-300">
+            Place:
+          </span>
+          {(["X", "O"] as Player[]).map((symbol) => (
+            <Button
+              key={symbol}
+              variant={selectedSymbol === symbol ? "default" : "outline"}
+              size="sm"
+              onClick={() => setSelectedSymbol(symbol)}
+              disabled={!canPlay}
+              className={cn(
+                "w-12 font-bold",
+                selectedSymbol !== symbol &&
+                  (symbol === "X"
+                    ? "text-blue-600 dark:text-blue-400"
+                    : "text-red-600 dark:text-red-400")
+              )}
+              aria-pressed={selectedSymbol === symbol}
+              aria-label={`Place ${symbol}`}
+            >
+              {symbol}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {/* Numerical number picker */}
+      {numberTarget && playerSymbol && (
+        <div className="flex flex-wrap items-center justify-center gap-2 max-w-md">
+          <span className="text-sm text-gray-600 dark:text-gray-300">
+            Your numbers:
+          </span>
+          {playerNumbers.map((value) => (
+            <Button
+              key={value}
+              variant={placedNumber === value ? "default" : "outline"}
+              size="sm"
+              onClick={() => setSelectedNumber(value)}
+              disabled={!canPlay}
+              className={cn(
+                "w-10 font-bold",
+                placedNumber !== value &&
+                  (playerSymbol === "X"
+                    ? "text-blue-600 dark:text-blue-400"
+                    : "text-red-600 dark:text-red-400")
+              )}
+              aria-pressed={placedNumber === value}
+              aria-label={`Place ${value}`}
+            >
+              {value}
+            </Button>
+          ))}
+        </div>
+      )}
+
       {/* Game Board Grid */}
       <div
         className={cn(
           "grid gap-1 p-4 bg-gray-200 dark:bg-gray-700 rounded-xl shadow-lg mx-auto",
+          // Dashed frame: the edges join up on a torus
+          toroidal && "border-2 border-dashed border-indigo-400",
           // Dynamic max width based on board size
-          board.length <= 3
+          boardSize <= 3
             ? "max-w-md"
-            : board.length <= 5
+            : boardSize <= 5
             ? "max-w-lg"
-            : board.length <= 7
+            : boardSize <= 7
             ? "max-w-xl"
             : "max-w-2xl"
         )}
         style={{
-          gridTemplateColumns: `repeat(${board.length}, minmax(0, 1fr))`,
-          maxWidth: board.length > 7 ? "600px" : undefined,
+          gridTemplateColumns: `repeat(${width}, minmax(0, 1fr))`,
+          maxWidth: boardSize > 7 ? "600px" : undefined,
         }}
         role="grid"
-        aria-label={`${board.length}x${board.length} TicTacToe game board`}
+        aria-label={`${width}x${height}${
+          toroidal ? " toroidal" : ""
+        } TicTacToe game board`}
+        onMouseLeave={() => setHoveredCol(null)}
       >
         {board.map((row, rowIndex) =>
           row.map((cell, colIndex) => (
@@ -157,33 +481,120 @@ export function GameBoard({
               variant="ghost"
               className={getCellClasses(rowIndex, colIndex, cell)}
               onClick={() => handleCellClick(rowIndex, colIndex)}
-              disabled={
-                disabled || !isPlayerTurn || isAIThinking || cell !== null
-              }
+              onMouseEnter={() => gravity && setHoveredCol(colIndex)}
+              disabled={!canPlay || !isCellPlayable(rowIndex, colIndex)}
               role="gridcell"
               aria-label={
-                cell
-                  ? `Cell ${rowIndex + 1}, ${colIndex + 1}, occupied by ${cell}`
-                  : `Cell ${rowIndex + 1}, ${colIndex + 1}, empty`
+                quantum
+                  ? `Cell ${rowIndex + 1}, ${
+                      colIndex + 1
+                    }, ${getQuantumCellLabel(rowIndex, colIndex)}`
+                  : cell === BLOCKED_CELL
+                  ? `Cell ${rowIndex + 1}, ${colIndex + 1}, blocked`
+                  : cell
+                  ? `Cell ${rowIndex + 1}, ${
+                      colIndex + 1
+                    }, occupied by ${cell}${
+                      isExpiring(rowIndex, colIndex)
+                        ? ", disappears next move"
+                        : ""
+                    }`
+                  : `Cell ${rowIndex + 1}, ${colIndex + 1}, empty${
+                      isForbidden(rowIndex, colIndex) ? ", forbidden for X" : ""
+                    }`
               }
             >
-              {getCellContent(cell)}
+              {getCellContent(rowIndex, colIndex, cell)}
 
               {/* Winning line animation overlay */}
               {isWinningPosition(rowIndex, colIndex, winningLine) && (
-                <div className="absolute inset-0 bg-green-400/20 animate-pulse rounded" />
+                <div
+                  className={cn(
+                    "absolute inset-0 animate-pulse rounded",
+                    misere ? "bg-orange-400/20" : "bg-green-400/20"
+                  )}
+                />
+              )}
+
+              {/* Position along a winning line that wraps around the edges */}
+              {getWrappedLineIndex(rowIndex, colIndex) >= 0 && (
+                <span
+                  className={cn(
+                    "absolute top-0.5 right-1 z-20 text-[10px] leading-none font-semibold",
+                    misere
+                      ? "text-orange-700 dark:text-orange-300"
+                      : "text-green-700 dark:text-green-300"
+                  )}
+                >
+                  {getWrappedLineIndex(rowIndex, colIndex) + 1}
+                </span>
               )}
             </Button>
           ))
         )}
       </div>
 
+      {wrappedLine && (
+        <div
+          className={cn(
+            "text-sm font-medium",
+            misere
+              ? "text-orange-700 dark:text-orange-300"
+              : "text-green-700 dark:text-green-300"
+          )}
+        >
+          The {misere ? "losing" : "winning"} line wraps around the edges -
+          follow the numbers 1 to {wrappedLine.length}
+        </div>
+      )}
+
       {/* Game Instructions */}
       <div className="text-sm text-gray-500 dark:text-gray-400 text-center max-w-md">
         {isPlayerTurn &&
           !isAIThinking &&
           !disabled &&
-          "Click on an empty cell to make your move"}
+          quantum &&
+          (pendingCollapse
+            ? `${pendingCollapse.mark.player}${pendingCollapse.mark.move} closed a cycle - pick the highlighted cell it collapses into, and every mark on the cycle settles with it`
+            : isFinalQuantumMark
+            ? "One cell left - click it to place your last mark for good"
+            : activeCell
+            ? "Now click a second cell for the other half of your spooky mark"
+            : "Click two cells to place a spooky mark in both - only collapsed marks count towards 3 in a row")}
+        {isPlayerTurn &&
+          !isAIThinking &&
+          !disabled &&
+          !quantum &&
+          numberTarget !== undefined &&
+          `Pick one of your numbers, then ${
+            gravity ? "click a column" : "click an empty cell"
+          } - ${misere ? "avoid making" : "make"} ${
+            winLength ?? getDefaultWinLength(width, height)
+          } numbers in a row that sum to ${numberTarget}${
+            toroidal ? " - lines wrap around the edges" : ""
+          }`}
+        {isPlayerTurn &&
+          !isAIThinking &&
+          !disabled &&
+          !quantum &&
+          numberTarget === undefined &&
+          `${
+            gravity
+              ? "Click a column to drop your mark"
+              : "Click on an empty cell to make your move"
+          }${wild ? " (pick X or O first)" : ""} - ${
+            misere ? "avoid" : "get"
+          } ${winLength ?? getDefaultWinLength(width, height)} in a row${
+            wild ? " of either symbol" : ""
+          } to ${misere ? "stay alive" : "win"}${
+            toroidal ? " - lines wrap around the edges" : ""
+          }${
+            expiringMark ? " - your faded mark disappears when you move" : ""
+          }${
+            forbiddenMoves.length > 0
+              ? " - cells marked ✕ would make a double three or double four"
+              : ""
+          }`}
         {!isPlayerTurn &&
           !isAIThinking &&
           !disabled &&
@@ -1,6 +1,16 @@
 "use client";
 
-import { Difficulty, GameScore, GameSettings, BoardSize } from "@/types/game";
+import {
+  Difficulty,
+  AIAlgorithm,
+  GameScore,
+  GameSettings,
+  BoardSize,
+  BoardShape,
+  Player,
+  PlayerCount,
+  SwapRule,
+} from "@/types/game";
 import { GameSettings as GameSettingsComponent } from "./GameSettings";
 import { ScoreDisplay } from "./ScoreDisplay";
 
@@ -14,8 +24,21 @@ interface GameControlsProps {
   };
   onNewGame: () => void;
   onDifficultyChange: (difficulty: Difficulty) => void;
+  onAIAlgorithmChange: (algorithm: AIAlgorithm) => void;
   onPlayerSymbolSwitch: () => void;
-  onBoardSizeChange: (size: BoardSize) => void;
+  onBoardSizeChange: (width: BoardSize, height: BoardSize) => void;
+  onWinLengthChange: (winLength: number) => void;
+  onMisereToggle: () => void;
+  onGravityToggle: () => void;
+  onWildToggle: () => void;
+  onSlidingToggle: () => void;
+  onNumericalToggle: () => void;
+  onToroidalToggle: () => void;
+  onRenjuToggle: () => void;
+  onBoardShapeChange: (shape: BoardShape) => void;
+  onSwapRuleChange: (swapRule: SwapRule) => void;
+  onPlayerCountChange: (playerCount: PlayerCount) => void;
+  onPlayerControlToggle: (player: Player) => void;
   onResetStats: () => void;
   isGameActive: boolean;
 }
@@ -26,8 +49,21 @@ export function GameControls({
   gameStats,
   onNewGame,
   onDifficultyChange,
+  onAIAlgorithmChange,
   onPlayerSymbolSwitch,
   onBoardSizeChange,
+  onWinLengthChange,
+  onMisereToggle,
+  onGravityToggle,
+  onWildToggle,
+  onSlidingToggle,
+  onNumericalToggle,
+  onToroidalToggle,
+  onRenjuToggle,
+  onBoardShapeChange,
+  onSwapRuleChange,
+  onPlayerCountChange,
+  onPlayerControlToggle,
   onResetStats,
   isGameActive,
 }: GameControlsProps) {
@@ -38,8 +74,21 @@ export function GameControls({
         gameSettings={gameSettings}
         onNewGame={onNewGame}
         onDifficultyChange={onDifficultyChange}
+        onAIAlgorithmChange={onAIAlgorithmChange}
         onPlayerSymbolSwitch={onPlayerSymbolSwitch}
         onBoardSizeChange={onBoardSizeChange}
+        onWinLengthChange={onWinLengthChange}
+        onMisereToggle={onMisereToggle}
+        onGravityToggle={onGravityToggle}
+        onWildToggle={onWildToggle}
+        onSlidingToggle={onSlidingToggle}
+        onNumericalToggle={onNumericalToggle}
+        onToroidalToggle={onToroidalToggle}
+        onRenjuToggle={onRenjuToggle}
+        onBoardShapeChange={onBoardShapeChange}
+        onSwapRuleChange={onSwapRuleChange}
+        onPlayerCountChange={onPlayerCountChange}
+        onPlayerControlToggle={onPlayerControlToggle}
         isGameActive={isGameActive}
       />
 
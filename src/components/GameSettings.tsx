@@ -2,8 +2,14 @@
 
 import {
   Difficulty,
+  AIAlgorithm,
   GameSettings as GameSettingsType,
   BoardSize,
+  BoardShape,
+  Player,
+  PlayerCount,
+  SwapRule,
+  PLAYER_SYMBOLS,
 } from "@/types/game";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -12,13 +18,31 @@ import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import { RefreshCw, Settings } from "lucide-react";
 import { BoardSizeSelector } from "./BoardSizeSelector";
+import { getWinLengthOptions } from "@/utils/gameLogic";
+import { BOARD_SHAPES } from "@/utils/boardShapes";
+import { isRuleVariantAvailable } from "@/utils/variants";
+import { SWAP_RULES, isSwap2Available } from "@/utils/openingRules";
+import { AI_ALGORITHMS, DIFFICULTY_LEVELS } from "@/utils/aiLevels";
 
 interface GameSettingsProps {
   gameSettings: GameSettingsType;
   onNewGame: () => void;
   onDifficultyChange: (difficulty: Difficulty) => void;
+  onAIAlgorithmChange: (algorithm: AIAlgorithm) => void;
   onPlayerSymbolSwitch: () => void;
-  onBoardSizeChange: (size: BoardSize) => void;
+  onBoardSizeChange: (width: BoardSize, height: BoardSize) => void;
+  onWinLengthChange: (winLength: number) => void;
+  onMisereToggle: () => void;
+  onGravityToggle: () => void;
+  onWildToggle: () => void;
+  onSlidingToggle: () => void;
+  onNumericalToggle: () => void;
+  onToroidalToggle: () => void;
+  onRenjuToggle: () => void;
+  onBoardShapeChange: (shape: BoardShape) => void;
+  onSwapRuleChange: (swapRule: SwapRule) => void;
+  onPlayerCountChange: (playerCount: PlayerCount) => void;
+  onPlayerControlToggle: (player: Player) => void;
   isGameActive: boolean;
 }
 
@@ -26,12 +50,29 @@ export function GameSettings({
   gameSettings,
   onNewGame,
   onDifficultyChange,
+  onAIAlgorithmChange,
   onPlayerSymbolSwitch,
   onBoardSizeChange,
+  onWinLengthChange,
+  onMisereToggle,
+  onGravityToggle,
+  onWildToggle,
+  onSlidingToggle,
+  onNumericalToggle,
+  onToroidalToggle,
+  onRenjuToggle,
+  onBoardShapeChange,
+  onSwapRuleChange,
+  onPlayerCountChange,
+  onPlayerControlToggle,
   isGameActive,
 }: GameSettingsProps) {
   const difficultyColors = {
     easy: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+    medium:
+      "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300",
+    strong:
+      "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300",
     hard: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
   };
 
@@ -69,33 +110,55 @@ export function GameSettings({
             </Badge>
           </div>
 
-          <div className="flex space-x-2">
-            <Button
-              variant={
-                gameSettings.difficulty === "easy" ? "default" : "outline"
-              }
-              size="sm"
-              onClick={() => onDifficultyChange("easy")}
-              className="flex-1"
-            >
-              Easy
-            </Button>
-            <Button
-              variant={
-                gameSettings.difficulty === "hard" ? "default" : "outline"
-              }
-              size="sm"
-              onClick={() => onDifficultyChange("hard")}
-              className="flex-1"
-            >
-              Hard
-            </Button>
+          <div className="grid grid-cols-2 gap-2">
+            {DIFFICULTY_LEVELS.map(({ value, label }) => (
+              <Button
+                key={value}
+                variant={
+                  gameSettings.difficulty === value ? "default" : "outline"
+                }
+                size="sm"
+                onClick={() => onDifficultyChange(value)}
+              >
+                {label}
+              </Button>
+            ))}
           </div>
 
           <div className="text-xs text-gray-500 dark:text-gray-400">
-            {gameSettings.difficulty === "easy"
-              ? "AI makes random moves - good for beginners"
-              : "AI uses minimax algorithm - challenging!"}
+            {
+              DIFFICULTY_LEVELS.find(
+                ({ value }) => value === gameSettings.difficulty
+              )?.description
+            }
+          </div>
+        </div>
+
+        {/* Search Algorithm */}
+        <div className="space-y-3">
+          <label className="text-sm font-medium">Search</label>
+
+          <div className="grid grid-cols-2 gap-2">
+            {AI_ALGORITHMS.map(({ value, label }) => (
+              <Button
+                key={value}
+                variant={
+                  gameSettings.aiAlgorithm === value ? "default" : "outline"
+                }
+                size="sm"
+                onClick={() => onAIAlgorithmChange(value)}
+                disabled={gameSettings.difficulty === "easy"}
+                className="text-xs"
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {gameSettings.aiAlgorithm === "mcts"
+              ? "Plays thousands of games out from each move and keeps the one that wins most often"
+              : "Looks ahead move by move, with heuristics on large boards"}
           </div>
         </div>
 
@@ -138,11 +201,312 @@ export function GameSettings({
 
         <Separator />
 
+        {/* Player Count */}
+        <div className="space-y-3">
+          <label className="text-sm font-medium">Players</label>
+
+          <div className="grid grid-cols-3 gap-2">
+            {([2, 3, 4] as PlayerCount[]).map((count) => (
+              <Button
+                key={count}
+                variant={
+                  gameSettings.playerCount === count ? "default" : "outline"
+                }
+                size="sm"
+                onClick={() => onPlayerCountChange(count)}
+                className="text-xs"
+              >
+                {count}
+              </Button>
+            ))}
+          </div>
+
+          {gameSettings.playerCount > 2 && (
+            <div className="grid grid-cols-2 gap-2">
+              {PLAYER_SYMBOLS.slice(0, gameSettings.playerCount).map(
+                (player) => (
+                  <Button
+                    key={player}
+                    variant={
+                      gameSettings.playerControls[player] === "human"
+                        ? "default"
+                        : "outline"
+                    }
+                    size="sm"
+                    onClick={() => onPlayerControlToggle(player)}
+                    className="text-xs"
+                  >
+                    {player}:{" "}
+                    {gameSettings.playerControls[player] === "human"
+                      ? "Human"
+                      : "AI"}
+                  </Button>
+                )
+              )}
+            </div>
+          )}
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {gameSettings.playerCount > 2
+              ? "Turns go X, O, Δ, □ - misère, wild, sliding and numerical rules need two players"
+              : "You against the AI"}
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Misère Rules */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">Misère rules</label>
+            <Switch
+              checked={gameSettings.misere}
+              onCheckedChange={onMisereToggle}
+            />
+          </div>
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {gameSettings.misere
+              ? "Completing a line loses - force the AI to finish one"
+              : "Completing a line wins (standard rules)"}
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Gravity Mode */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">Gravity</label>
+            <Switch
+              checked={gameSettings.gravity}
+              onCheckedChange={onGravityToggle}
+            />
+          </div>
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {gameSettings.gravity
+              ? "Click a column - marks drop to the lowest empty cell"
+              : "Place marks on any empty cell"}
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Wild Mode */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">Wild</label>
+            <Switch
+              checked={gameSettings.wild}
+              onCheckedChange={onWildToggle}
+              disabled={!isRuleVariantAvailable("wild", gameSettings)}
+            />
+          </div>
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {gameSettings.wild
+              ? "Place X or O on any turn - whoever completes a line wins"
+              : "Each player places only their own symbol"}
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Sliding Mode */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">Sliding</label>
+            <Switch
+              checked={gameSettings.sliding}
+              onCheckedChange={onSlidingToggle}
+              disabled={!isRuleVariantAvailable("sliding", gameSettings)}
+            />
+          </div>
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {gameSettings.sliding
+              ? `Each player keeps ${gameSettings.winLength} marks - placing another removes the oldest`
+              : "Marks stay on the board until it fills up"}
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Numerical Mode */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">Numerical</label>
+            <Switch
+              checked={gameSettings.numerical}
+              onCheckedChange={onNumericalToggle}
+            />
+          </div>
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {gameSettings.numerical
+              ? "X places odd numbers, O even ones - a full line hitting the target sum wins"
+              : "Players place X and O"}
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Toroidal Board */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">Toroidal</label>
+            <Switch
+              checked={gameSettings.toroidal}
+              onCheckedChange={onToroidalToggle}
+            />
+          </div>
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {gameSettings.toroidal
+              ? "Lines wrap around the edges - the right edge joins the left, the bottom joins the top"
+              : "Lines stop at the board edges"}
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Renju Restrictions */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">Renju</label>
+            <Switch
+              checked={gameSettings.renju}
+              onCheckedChange={onRenjuToggle}
+              disabled={!isRuleVariantAvailable("renju", gameSettings)}
+            />
+          </div>
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {gameSettings.renju
+              ? "X needs exactly a full line and may not make a double three or double four"
+              : "Both players win with any line long enough (5 or more in a row to enable Renju)"}
+          </div>
+        </div>
+
+        <Separator />
+
         {/* Board Size Selection */}
         <BoardSizeSelector
-          currentSize={gameSettings.boardSize}
+          currentWidth={gameSettings.boardWidth}
+          currentHeight={gameSettings.boardHeight}
           onSizeChange={onBoardSizeChange}
         />
+
+        <Separator />
+
+        {/* Win Length Selection */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">Win Length</label>
+            <Badge
+              variant="secondary"
+              className="bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300"
+            >
+              {gameSettings.winLength} in a row
+            </Badge>
+          </div>
+
+          <div className="grid grid-cols-4 gap-2">
+            {getWinLengthOptions(
+              gameSettings.boardWidth,
+              gameSettings.boardHeight
+            ).map((length) => (
+              <Button
+                key={length}
+                variant={
+                  gameSettings.winLength === length ? "default" : "outline"
+                }
+                size="sm"
+                onClick={() => onWinLengthChange(length)}
+                className="text-xs"
+              >
+                {length}
+              </Button>
+            ))}
+          </div>
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Lines of this length count anywhere on the board - try 5 on 10x10
+            for Gomoku
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Board Shape Selection */}
+        <div className="space-y-3">
+          <label className="text-sm font-medium">Board Shape</label>
+
+          <div className="grid grid-cols-3 gap-2">
+            {BOARD_SHAPES.map(({ value, label }) => (
+              <Button
+                key={value}
+                variant={
+                  gameSettings.boardShape === value ? "default" : "outline"
+                }
+                size="sm"
+                onClick={() => onBoardShapeChange(value)}
+                disabled={!isRuleVariantAvailable("shaped", gameSettings)}
+                className="text-xs"
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {gameSettings.gravity
+              ? "Shaped boards are not available with gravity"
+              : gameSettings.boardShape === "random"
+              ? `Random obstacles from seed ${gameSettings.obstacleSeed}`
+              : "Blocked cells are out of play and break every line through them"}
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Swap Rule Selection */}
+        <div className="space-y-3">
+          <label className="text-sm font-medium">Swap Rule</label>
+
+          <div className="grid grid-cols-3 gap-2">
+            {SWAP_RULES.map(({ value, label }) => (
+              <Button
+                key={value}
+                variant={
+                  gameSettings.swapRule === value ? "default" : "outline"
+                }
+                size="sm"
+                onClick={() => onSwapRuleChange(value)}
+                disabled={
+                  !isRuleVariantAvailable("swap", gameSettings) ||
+                  (value === "swap2" &&
+                    !isSwap2Available(
+                      gameSettings.boardWidth,
+                      gameSettings.boardHeight
+                    ))
+                }
+                className="text-xs"
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {gameSettings.swapRule === "swap2"
+              ? "X places X, O and X - O takes X, stays O, or adds an O and an X and lets X pick"
+              : gameSettings.swapRule === "pie"
+              ? "After X's first move, O may take it over and play X"
+              : "X keeps the first-move advantage (Swap2 needs at least 7x7)"}
+          </div>
+        </div>
       </CardContent>
     </Card>
   );
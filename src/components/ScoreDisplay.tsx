@@ -1,6 +1,6 @@
 "use client";
 
-import { GameScore } from "@/types/game";
+import { GameScore, PLAYER_SYMBOLS } from "@/types/game";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
@@ -40,13 +40,13 @@ export function ScoreDisplay({
         <div className="grid grid-cols-3 gap-3">
           <div className="text-center">
             <div className="text-2xl font-bold text-green-600 dark:text-green-400">
-              {gameScore.playerWins}
+              {gameScore.humanWins}
             </div>
             <div className="text-xs text-gray-500 dark:text-gray-400">Wins</div>
           </div>
           <div className="text-center">
             <div className="text-2xl font-bold text-red-600 dark:text-red-400">
-              {gameScore.aiWins}
+              {gameStats.totalGames - gameScore.humanWins - gameScore.draws}
             </div>
             <div className="text-xs text-gray-500 dark:text-gray-400">
               Losses
@@ -62,6 +62,16 @@ export function ScoreDisplay({
           </div>
         </div>
 
+        {/* Wins per Symbol */}
+        <div className="flex justify-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+          {PLAYER_SYMBOLS.map((player) => (
+            <span key={player}>
+              <span className="font-bold">{player}</span>{" "}
+              {gameScore.wins[player]}
+            </span>
+          ))}
+        </div>
+
         <Separator />
 
         {/* Current Streak */}
@@ -2,6 +2,8 @@
 
 import { useGameState } from "@/hooks/useGameState";
 import { GameBoard } from "@/components/GameBoard";
+import { UltimateBoard } from "@/components/UltimateBoard";
+import { CubeBoard } from "@/components/CubeBoard";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -14,48 +16,104 @@ import { Button } from "@/components/ui/button";
 import { Users, Medal, RefreshCw, Settings, Target, RotateCcw } from "lucide-react";
 import { useEffect, useState } from "react";
 import { Switch } from "@/components/ui/switch";
+import { getPlayers, getWinLengthOptions } from "@/utils/gameLogic";
+import { CUBE_SIZES } from "@/utils/cubeLogic";
+import { BOARD_SHAPES } from "@/utils/boardShapes";
+import { SWAP_RULES, describeOpeningChoice, isSwap2Available } from "@/utils/openingRules";
+import { AI_ALGORITHMS, DIFFICULTY_LEVELS, describeMove } from "@/utils/aiLevels";
+import { getGameVariant, getGameVariants, isRuleVariantAvailable } from "@/utils/variants";
+import { BoardSize, Difficulty, PlayerCount, PLAYER_SYMBOLS } from "@/types/game";
+
+const BOARD_DIMENSIONS: BoardSize[] = [3, 4, 5, 6, 7, 8, 9, 10];
+const PLAYER_COUNTS: PlayerCount[] = [2, 3, 4];
+const DIFFICULTY_COLORS: Record<Difficulty, string> = {
+  easy: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+  medium: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300",
+  strong: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300",
+  hard: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+};
 
 export function TicTacToeGame() {
   const {
     gameState,
     gameScore,
     aiMetrics,
+    aiProgress,
+    aiError,
     gameSettings,
     isAIThinking,
     makePlayerMove,
+    chooseOpening,
     startNewGame,
     changeDifficulty,
+    changeAIAlgorithm,
     changeBoardSize,
+    changeWinLength,
+    toggleMisere,
+    toggleGravity,
+    toggleWild,
+    toggleSliding,
+    toggleNumerical,
+    toggleToroidal,
+    toggleRenju,
+    changeBoardShape,
+    changeSwapRule,
+    changeGameMode,
+    changeCubeSize,
+    changePlayerCount,
+    togglePlayerControl,
     switchPlayerSymbol,
     resetStats,
     gameStats,
+    humanPlayers,
+    nextExpiringMark,
+    forbiddenMoves,
   } = useGameState();
 
+  // Three- and four-player games name the symbols instead of "you" and "AI"
+  const isMultiPlayer = getPlayers(gameState.rules).length > 2;
+  const isGameOver = gameState.gameStatus === "won" || gameState.gameStatus === "draw";
+  const lineStats = gameState.lineStats;
+
   const [showGameOverDialog, setShowGameOverDialog] = useState(false);
 
   // Show game over dialog when game ends
   useEffect(() => {
-    if (gameState.gameStatus !== "playing") {
+    if (isGameOver) {
       const timer = setTimeout(() => {
         setShowGameOverDialog(true);
       }, 1000); // Delay to show the winning animation first
 
       return () => clearTimeout(timer);
     }
-  }, [gameState.gameStatus]);
+  }, [isGameOver]);
 
   const getGameStatusMessage = () => {
     if (gameState.gameStatus === "won") {
-      if (gameState.winner === gameSettings.playerSymbol) {
+      // Under misère rules the loser is whoever completed the line
+      const isMisere = gameState.rules.misere;
+
+      if (isMultiPlayer && gameState.winner) {
+        const isHumanWinner = humanPlayers.includes(gameState.winner);
+        return {
+          title: isHumanWinner ? `🎉 ${gameState.winner} Wins!` : `🤖 ${gameState.winner} (AI) Wins!`,
+          message: `${gameState.winner} completed a line${isHumanWinner ? "!" : " - better luck next time!"}`,
+          color: isHumanWinner ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400",
+        };
+      }
+
+      if (gameState.winner && humanPlayers.includes(gameState.winner)) {
         return {
           title: "🎉 Congratulations!",
-          message: "You won!",
+          message: isMisere ? "The AI completed a line - you won!" : "You won!",
           color: "text-green-600 dark:text-green-400",
         };
       } else {
         return {
           title: "🤖 AI Wins!",
-          message: "Better luck next time!",
+          message: isMisere
+            ? "You completed a line - better luck next time!"
+            : "Better luck next time!",
           color: "text-red-600 dark:text-red-400",
         };
       }
@@ -69,6 +127,48 @@ export function TicTacToeGame() {
     return null;
   };
 
+  const getBoardDescription = () => {
+    if (gameState.gameMode === "ultimate") {
+      return "Ultimate";
+    }
+    if (gameState.quantum) {
+      return "Quantum 3x3";
+    }
+    if (gameState.cube) {
+      const size = gameState.cube.length;
+      return `3D ${size}x${size}x${size}`;
+    }
+
+    const parts = [
+      `${gameState.boardWidth}x${gameState.boardHeight}`,
+      `${gameState.rules.winLength} in a row`,
+    ];
+    if (gameState.rules.misere) parts.push("misère");
+    if (gameState.rules.gravity) parts.push("gravity");
+    if (gameState.rules.wild) parts.push("wild");
+    if (gameState.rules.maxMarks) parts.push("sliding");
+    if (gameState.rules.numberTarget) parts.push(`sum to ${gameState.rules.numberTarget}`);
+    if (gameState.rules.toroidal) parts.push("toroidal");
+    if (gameState.rules.blockedCells) parts.push(`${gameSettings.boardShape} shape`);
+    if (isMultiPlayer) parts.push(`${getPlayers(gameState.rules).length} players`);
+    if (gameState.rules.renju) parts.push("Renju");
+    if (gameState.rules.swapRule) parts.push(gameState.rules.swapRule === "pie" ? "pie rule" : "Swap2");
+    if (gameState.swapped) parts.push("sides swapped");
+    return parts.join(", ");
+  };
+
+  // Explains the pending opening decision (pie rule or Swap2)
+  const getOpeningMessage = () => {
+    const { opening } = gameState;
+    if (!opening) return "";
+
+    const chooser = gameState.isPlayerTurn ? "You play" : "The AI plays";
+    const marks = opening.choices.includes("place-two")
+      ? "place an O and an X and let the other side pick, "
+      : "";
+    return `${chooser} ${opening.chooser}: take over the other side, ${marks}or stay ${opening.chooser} - ${gameState.currentPlayer} moves next either way`;
+  };
+
   const handleNewGameFromDialog = () => {
     setShowGameOverDialog(false);
     startNewGame();
@@ -90,7 +190,7 @@ export function TicTacToeGame() {
         </div>
 
         {/* Game Status Banner */}
-        {gameState.gameStatus !== "playing" && statusMessage && (
+        {isGameOver && statusMessage && (
           <Card className="mb-6">
             <CardContent className="py-4">
               <div className={`text-center ${statusMessage.color}`}>
@@ -103,6 +203,36 @@ export function TicTacToeGame() {
           </Card>
         )}
 
+        {/* Opening Decision */}
+        {gameState.gameStatus === "deciding" && gameState.opening && (
+          <Card className="mb-6">
+            <CardContent className="py-4">
+              <div className="text-center space-y-3">
+                <div className="text-2xl font-bold text-indigo-600 dark:text-indigo-400">
+                  {gameState.isPlayerTurn ? "Pick your side" : "The AI is picking a side..."}
+                </div>
+                <div className="text-sm text-gray-600 dark:text-gray-300">
+                  {getOpeningMessage()}
+                </div>
+                {gameState.isPlayerTurn && (
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {gameState.opening.choices.map((choice) => (
+                      <Button
+                        key={choice}
+                        variant={choice === "swap" ? "default" : "outline"}
+                        onClick={() => chooseOpening(choice)}
+                        disabled={isAIThinking}
+                      >
+                        {describeOpeningChoice(choice, gameState.opening!.chooser)}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Main Game Layout */}
         {/* Top Row - All Controls in One Card */}
         <div className="mb-8">
@@ -126,42 +256,83 @@ export function TicTacToeGame() {
                     onClick={startNewGame}
                     className="w-full"
                     size="lg"
-                    variant={gameState.gameStatus === "playing" ? "outline" : "default"}
+                    variant={isGameOver ? "default" : "outline"}
                   >
                     <RefreshCw className="h-4 w-4 mr-2" />
                     New Game
                   </Button>
 
+                  {/* Game Mode Selection */}
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Game Mode</label>
+                    <div className="flex space-x-2">
+                      {getGameVariants().map((variant) => (
+                        <Button
+                          key={variant.id}
+                          variant={gameSettings.gameMode === variant.id ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => changeGameMode(variant.id)}
+                          className="flex-1"
+                          title={variant.description}
+                        >
+                          {variant.name}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
                   {/* Difficulty Selection */}
                   <div className="space-y-2">
                     <div className="flex items-center justify-between">
                       <label className="text-sm font-medium">Difficulty</label>
                       <Badge
                         variant="secondary"
-                        className={gameSettings.difficulty === "easy" 
-                          ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300"
-                          : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300"}
+                        className={DIFFICULTY_COLORS[gameSettings.difficulty]}
                       >
                         {gameSettings.difficulty.toUpperCase()}
                       </Badge>
                     </div>
-                    <div className="flex space-x-2">
-                      <Button
-                        variant={gameSettings.difficulty === "easy" ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => changeDifficulty("easy")}
-                        className="flex-1"
-                      >
-                        Easy
-                      </Button>
-                      <Button
-                        variant={gameSettings.difficulty === "hard" ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => changeDifficulty("hard")}
-                        className="flex-1"
-                      >
-                        Hard
-                      </Button>
+                    <div className="grid grid-cols-4 gap-1">
+                      {DIFFICULTY_LEVELS.map(({ value, label }) => (
+                        <Button
+                          key={value}
+                          variant={gameSettings.difficulty === value ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => changeDifficulty(value)}
+                          className="text-xs px-2 py-1"
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {DIFFICULTY_LEVELS.find(({ value }) => value === gameSettings.difficulty)?.description}
+                    </div>
+                  </div>
+
+                  {/* Search Algorithm */}
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Search</label>
+                    <div className="grid grid-cols-2 gap-1">
+                      {AI_ALGORITHMS.map(({ value, label }) => (
+                        <Button
+                          key={value}
+                          variant={gameSettings.aiAlgorithm === value ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => changeAIAlgorithm(value)}
+                          disabled={gameSettings.difficulty === "easy"}
+                          className="text-xs px-2 py-1"
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {gameSettings.difficulty === "easy"
+                        ? "Not used in easy mode"
+                        : gameSettings.aiAlgorithm === "mcts"
+                        ? "Plays games out at random from each move and keeps the one that wins most often"
+                        : "Looks ahead move by move, with heuristics on large boards"}
                     </div>
                   </div>
 
@@ -176,6 +347,7 @@ export function TicTacToeGame() {
                         <Switch
                           checked={gameSettings.playerSymbol === "O"}
                           onCheckedChange={switchPlayerSymbol}
+                          disabled={isMultiPlayer}
                         />
                         <span className={`font-bold ${gameSettings.playerSymbol === "O" ? "text-red-600 dark:text-red-400" : "text-gray-400"}`}>
                           O
@@ -183,6 +355,150 @@ export function TicTacToeGame() {
                       </div>
                     </div>
                   </div>
+
+                  {/* Player Count */}
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Players</label>
+                    <div className="grid grid-cols-3 gap-1">
+                      {PLAYER_COUNTS.map((count) => (
+                        <Button
+                          key={count}
+                          variant={gameSettings.playerCount === count ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => changePlayerCount(count)}
+                          disabled={!isRuleVariantAvailable("multiplayer", gameSettings)}
+                          className="text-xs"
+                        >
+                          {count}
+                        </Button>
+                      ))}
+                    </div>
+                    {isMultiPlayer ? (
+                      <div className="grid grid-cols-2 gap-1">
+                        {getPlayers(gameState.rules).map((player) => (
+                          <Button
+                            key={player}
+                            variant={gameSettings.playerControls[player] === "human" ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => togglePlayerControl(player)}
+                            className="text-xs"
+                            aria-label={`${player} is played by ${gameSettings.playerControls[player] === "human" ? "a human" : "the AI"}`}
+                          >
+                            {player}: {gameSettings.playerControls[player] === "human" ? "Human" : "AI"}
+                          </Button>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        Three or four players take turns X, O, Δ, □ - classic rules only
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Misère Rules */}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium">Misère rules</label>
+                      <Switch
+                        checked={gameSettings.misere}
+                        onCheckedChange={toggleMisere}
+                        disabled={!isRuleVariantAvailable("misere", gameSettings)}
+                      />
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      Completing a line loses the game
+                    </div>
+                  </div>
+
+                  {/* Gravity Mode */}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium">Gravity</label>
+                      <Switch
+                        checked={gameSettings.gravity}
+                        onCheckedChange={toggleGravity}
+                        disabled={!isRuleVariantAvailable("gravity", gameSettings)}
+                      />
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      Marks drop to the lowest empty cell (Connect Four style)
+                    </div>
+                  </div>
+
+                  {/* Wild Mode */}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium">Wild</label>
+                      <Switch
+                        checked={gameSettings.wild}
+                        onCheckedChange={toggleWild}
+                        disabled={!isRuleVariantAvailable("wild", gameSettings)}
+                      />
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      Place X or O on any turn - whoever completes a line wins
+                    </div>
+                  </div>
+
+                  {/* Sliding Mode */}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium">Sliding</label>
+                      <Switch
+                        checked={gameSettings.sliding}
+                        onCheckedChange={toggleSliding}
+                        disabled={!isRuleVariantAvailable("sliding", gameSettings)}
+                      />
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      Each player keeps only {gameSettings.winLength} marks - placing another removes the oldest
+                    </div>
+                  </div>
+
+                  {/* Numerical Mode */}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium">Numerical</label>
+                      <Switch
+                        checked={gameSettings.numerical}
+                        onCheckedChange={toggleNumerical}
+                        disabled={!isRuleVariantAvailable("numerical", gameSettings)}
+                      />
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      X places odd numbers, O even ones - a full line hitting the target sum wins
+                    </div>
+                  </div>
+
+                  {/* Toroidal Board */}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium">Toroidal</label>
+                      <Switch
+                        checked={gameSettings.toroidal}
+                        onCheckedChange={toggleToroidal}
+                        disabled={!isRuleVariantAvailable("toroidal", gameSettings)}
+                      />
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      Lines wrap around the edges - the right edge joins the left, the bottom joins the top
+                    </div>
+                  </div>
+
+                  {/* Renju Restrictions */}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium">Renju</label>
+                      <Switch
+                        checked={gameSettings.renju}
+                        onCheckedChange={toggleRenju}
+                        disabled={!isRuleVariantAvailable("renju", gameSettings)}
+                      />
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      X needs exactly {gameSettings.winLength} in a row and may not make a double three or double four - needs 5 in a row or more
+                    </div>
+                  </div>
                 </div>
 
                 {/* Score Section */}
@@ -196,7 +512,7 @@ export function TicTacToeGame() {
                   <div className="grid grid-cols-3 gap-3">
                     <div className="text-center">
                       <div className="text-2xl font-bold text-green-600 dark:text-green-400">
-                        {gameScore.playerWins}
+                        {gameScore.humanWins}
                       </div>
                       <div className="text-xs text-gray-500 dark:text-gray-400">
                         Wins
@@ -204,7 +520,7 @@ export function TicTacToeGame() {
                     </div>
                     <div className="text-center">
                       <div className="text-2xl font-bold text-red-600 dark:text-red-400">
-                        {gameScore.aiWins}
+                        {gameStats.totalGames - gameScore.humanWins - gameScore.draws}
                       </div>
                       <div className="text-xs text-gray-500 dark:text-gray-400">
                         Losses
@@ -220,6 +536,15 @@ export function TicTacToeGame() {
                     </div>
                   </div>
 
+                  {/* Wins per Symbol */}
+                  <div className="flex justify-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+                    {PLAYER_SYMBOLS.map((player) => (
+                      <span key={player}>
+                        <span className="font-bold">{player}</span> {gameScore.wins[player]}
+                      </span>
+                    ))}
+                  </div>
+
                   {/* Win Rate */}
                   <div className="text-center">
                     <div className="text-lg font-medium text-gray-700 dark:text-gray-300">
@@ -230,6 +555,23 @@ export function TicTacToeGame() {
                     </div>
                   </div>
 
+                  {/* Results per AI Level */}
+                  <div className="space-y-1 text-xs">
+                    {DIFFICULTY_LEVELS.map(({ value, label }) => {
+                      const { wins, losses, draws } = gameScore.byDifficulty[value];
+                      return (
+                        <div key={value} className="flex justify-between">
+                          <Badge variant="secondary" className={DIFFICULTY_COLORS[value]}>
+                            {label}
+                          </Badge>
+                          <span className="text-gray-600 dark:text-gray-300">
+                            {wins}W / {losses}L / {draws}D
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+
                   {/* Current Streak */}
                   {gameScore.currentStreak > 0 && gameScore.streakType && (
                     <div className="text-center p-2 bg-gray-50 dark:bg-gray-800 rounded">
@@ -263,49 +605,203 @@ export function TicTacToeGame() {
                     Board & AI
                   </h3>
                   
-                  {/* Board Size Selection */}
-                  <div className="space-y-2">
-                    <div className="flex items-center justify-between">
-                      <label className="text-sm font-medium">Board Size</label>
-                      <Badge variant="secondary" className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300">
-                        {gameSettings.boardSize}x{gameSettings.boardSize}
-                      </Badge>
-                    </div>
+                  {gameSettings.gameMode === "classic" ? (
+                    <>
+                      {/* Board Size Selection */}
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <label className="text-sm font-medium">Board Size</label>
+                          <Badge variant="secondary" className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300">
+                            {gameSettings.boardWidth}x{gameSettings.boardHeight}
+                          </Badge>
+                        </div>
                     
-                    {/* Quick Size Buttons */}
-                    <div className="grid grid-cols-4 gap-1">
-                      {([3, 4, 5, 6] as const).map((size) => (
-                        <Button
-                          key={size}
-                          variant={gameSettings.boardSize === size ? "default" : "outline"}
-                          size="sm"
-                          onClick={() => changeBoardSize(size)}
-                          className="text-xs px-2 py-1"
-                        >
-                          {size}x{size}
-                        </Button>
-                      ))}
-                    </div>
+                        {/* Quick Size Buttons */}
+                        <div className="grid grid-cols-4 gap-1">
+                          {([3, 4, 5, 6] as const).map((size) => (
+                            <Button
+                              key={size}
+                              variant={gameSettings.boardWidth === size && gameSettings.boardHeight === size ? "default" : "outline"}
+                              size="sm"
+                              onClick={() => changeBoardSize(size)}
+                              className="text-xs px-2 py-1"
+                            >
+                              {size}x{size}
+                            </Button>
+                          ))}
+                        </div>
                     
-                    <div className="grid grid-cols-4 gap-1">
-                      {([7, 8, 9, 10] as const).map((size) => (
-                        <Button
-                          key={size}
-                          variant={gameSettings.boardSize === size ? "default" : "outline"}
-                          size="sm"
-                          onClick={() => changeBoardSize(size)}
-                          className="text-xs px-2 py-1"
-                        >
-                          {size}x{size}
-                        </Button>
-                      ))}
+                        <div className="grid grid-cols-4 gap-1">
+                          {([7, 8, 9, 10] as const).map((size) => (
+                            <Button
+                              key={size}
+                              variant={gameSettings.boardWidth === size && gameSettings.boardHeight === size ? "default" : "outline"}
+                              size="sm"
+                              onClick={() => changeBoardSize(size)}
+                              className="text-xs px-2 py-1"
+                            >
+                              {size}x{size}
+                            </Button>
+                          ))}
+                        </div>
+
+                        {/* Rectangular Boards */}
+                        <div className="flex items-center gap-2 text-xs">
+                          <label htmlFor="board-width">Width</label>
+                          <select
+                            id="board-width"
+                            value={gameSettings.boardWidth}
+                            onChange={(e) => changeBoardSize(Number(e.target.value) as BoardSize, gameSettings.boardHeight)}
+                            className="flex-1 h-7 px-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                          >
+                            {BOARD_DIMENSIONS.map((size) => (
+                              <option key={size} value={size}>{size}</option>
+                            ))}
+                          </select>
+                          <label htmlFor="board-height">Height</label>
+                          <select
+                            id="board-height"
+                            value={gameSettings.boardHeight}
+                            onChange={(e) => changeBoardSize(gameSettings.boardWidth, Number(e.target.value) as BoardSize)}
+                            className="flex-1 h-7 px-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                          >
+                            {BOARD_DIMENSIONS.map((size) => (
+                              <option key={size} value={size}>{size}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+
+                      {/* Win Length Selection */}
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <label className="text-sm font-medium">Win Length</label>
+                          <Badge variant="secondary" className="bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300">
+                            {gameSettings.winLength} in a row
+                          </Badge>
+                        </div>
+
+                        <div className="grid grid-cols-4 gap-1">
+                          {getWinLengthOptions(gameSettings.boardWidth, gameSettings.boardHeight).map((length) => (
+                            <Button
+                              key={length}
+                              variant={gameSettings.winLength === length ? "default" : "outline"}
+                              size="sm"
+                              onClick={() => changeWinLength(length)}
+                              className="text-xs px-2 py-1"
+                            >
+                              {length}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+
+                      {/* Board Shape Selection */}
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Board Shape</label>
+                        <div className="grid grid-cols-3 gap-1">
+                          {BOARD_SHAPES.map(({ value, label }) => (
+                            <Button
+                              key={value}
+                              variant={gameSettings.boardShape === value ? "default" : "outline"}
+                              size="sm"
+                              onClick={() => changeBoardShape(value)}
+                              disabled={!isRuleVariantAvailable("shaped", gameSettings)}
+                              className="text-xs px-2 py-1"
+                            >
+                              {label}
+                            </Button>
+                          ))}
+                        </div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {gameSettings.gravity
+                            ? "Shaped boards are not available with gravity"
+                            : gameSettings.boardShape === "random"
+                            ? `Random obstacles from seed ${gameSettings.obstacleSeed} - pick Random again for a new layout`
+                            : "Blocked cells are out of play and break every line through them"}
+                        </div>
+                      </div>
+
+                      {/* Opening Protocol */}
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Swap Rule</label>
+                        <div className="grid grid-cols-3 gap-1">
+                          {SWAP_RULES.map(({ value, label }) => (
+                            <Button
+                              key={value}
+                              variant={gameSettings.swapRule === value ? "default" : "outline"}
+                              size="sm"
+                              onClick={() => changeSwapRule(value)}
+                              disabled={
+                                !isRuleVariantAvailable("swap", gameSettings) ||
+                                (value === "swap2" && !isSwap2Available(gameSettings.boardWidth, gameSettings.boardHeight))
+                              }
+                              className="text-xs px-2 py-1"
+                            >
+                              {label}
+                            </Button>
+                          ))}
+                        </div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {!isRuleVariantAvailable("swap", gameSettings)
+                            ? "Swap rules need two players placing their own marks (no wild or numerical rules)"
+                            : gameSettings.swapRule === "swap2"
+                            ? "X places X, O and X; O takes X, stays O, or adds an O and an X and lets X pick"
+                            : gameSettings.swapRule === "pie"
+                            ? "After X's first move, O may take it over and play X"
+                            : isSwap2Available(gameSettings.boardWidth, gameSettings.boardHeight)
+                            ? "X keeps the first-move advantage"
+                            : "X keeps the first-move advantage - Swap2 needs a board of at least 7x7"}
+                        </div>
+                      </div>
+                    </>
+                  ) : gameSettings.gameMode === "cube" ? (
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Cube Size</label>
+                      <div className="grid grid-cols-2 gap-1">
+                        {CUBE_SIZES.map((size) => (
+                          <Button
+                            key={size}
+                            variant={gameSettings.cubeSize === size ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => changeCubeSize(size)}
+                            className="text-xs"
+                          >
+                            {size}x{size}x{size}
+                          </Button>
+                        ))}
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        A full line wins in any direction, including through the layers
+                      </div>
                     </div>
-                  </div>
+                  ) : (
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {getGameVariant(gameSettings.gameMode).description}
+                    </div>
+                  )}
+
+                  {/* Line Stats */}
+                  {lineStats && (
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Lines</label>
+                      <div className="space-y-1 text-xs">
+                        {getPlayers(gameState.rules).map((player) => (
+                          <div key={player} className="flex justify-between">
+                            <span>{player}:</span>
+                            <span>
+                              {lineStats.openLines[player]} open, longest run {lineStats.longestRun[player]}/{gameState.rules.winLength}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
 
                   {/* AI Metrics */}
                   <div className="space-y-2">
                     <label className="text-sm font-medium">AI Performance</label>
-                    {gameSettings.difficulty === "hard" && (
+                    {gameSettings.difficulty !== "easy" && (
                       <div className="space-y-1 text-xs">
                         <div className="flex justify-between">
                           <span>Positions:</span>
@@ -319,12 +815,50 @@ export function TicTacToeGame() {
                           <span>Score:</span>
                           <span>{aiMetrics.lastMoveScore}</span>
                         </div>
+                        {aiMetrics.forcedWin && (
+                          <div className="flex justify-between font-medium text-green-600 dark:text-green-400">
+                            <span>Forced win:</span>
+                            <span>found</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between">
+                          <span>Depth:</span>
+                          <span>{aiMetrics.depthReached}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>TT hits:</span>
+                          <span>{Math.round(aiMetrics.ttHitRate * 100)}%</span>
+                        </div>
+                        {aiMetrics.simulations > 0 && (
+                          <>
+                            <div className="flex justify-between">
+                              <span>Playouts:</span>
+                              <span>{aiMetrics.simulations.toLocaleString()}</span>
+                            </div>
+                            {aiMetrics.moveStats.map(({ move, visits, winRate }) => (
+                              <div key={describeMove(move)} className="flex justify-between text-gray-500 dark:text-gray-400">
+                                <span>{describeMove(move)}</span>
+                                <span>
+                                  {visits.toLocaleString()} visits, {Math.round(winRate * 100)}%
+                                </span>
+                              </div>
+                            ))}
+                          </>
+                        )}
                       </div>
                     )}
                     {isAIThinking && (
-                      <div className="flex items-center justify-center py-2">
-                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
-                        <span className="text-sm">AI thinking...</span>
+                      <div className="py-2">
+                        <div className="flex items-center justify-center">
+                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+                          <span className="text-sm">AI thinking...</span>
+                        </div>
+                        {aiProgress && (
+                          <div className="mt-1 text-xs text-center text-gray-500 dark:text-gray-400">
+                            {aiProgress.positionsEvaluated.toLocaleString()} positions
+                            {aiProgress.bestMove && `, best so far ${describeMove(aiProgress.bestMove)}`}
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -340,10 +874,12 @@ export function TicTacToeGame() {
             <CardHeader className="text-center pb-4">
               <CardTitle className="flex items-center justify-center gap-2">
                 <Users className="h-5 w-5" />
-                Game Board ({gameSettings.boardSize}x{gameSettings.boardSize})
-                {gameState.gameStatus !== "playing" && gameState.winner && (
+                Game Board ({getBoardDescription()})
+                {isGameOver && gameState.winner && (
                   <Badge variant="secondary" className="ml-2">
-                    {gameState.winner === gameSettings.playerSymbol
+                    {isMultiPlayer
+                      ? `${gameState.winner} Wins!`
+                      : humanPlayers.includes(gameState.winner)
                       ? "You Win!"
                       : "AI Wins!"}
                   </Badge>
@@ -354,16 +890,52 @@ export function TicTacToeGame() {
                   </Badge>
                 )}
               </CardTitle>
+              {aiError && (
+                <div className="text-sm text-red-600 dark:text-red-400">
+                  The AI could not move ({aiError}). Start a new game to continue.
+                </div>
+              )}
             </CardHeader>
             <CardContent className="flex justify-center">
-              <GameBoard
-                board={gameState.board}
-                onCellClick={makePlayerMove}
-                isPlayerTurn={gameState.isPlayerTurn}
-                isAIThinking={isAIThinking}
-                winningLine={gameState.winningLine}
-                disabled={gameState.gameStatus !== "playing"}
-              />
+              {gameState.cube ? (
+                <CubeBoard
+                  cube={gameState.cube}
+                  onCellClick={(layer, row, col) => makePlayerMove(row, col, { layer })}
+                  isPlayerTurn={gameState.isPlayerTurn}
+                  isAIThinking={isAIThinking}
+                  winningLine={gameState.cubeWinningLine}
+                  disabled={gameState.gameStatus !== "playing"}
+                />
+              ) : gameState.ultimateBoard ? (
+                <UltimateBoard
+                  ultimateBoard={gameState.ultimateBoard}
+                  onCellClick={makePlayerMove}
+                  isPlayerTurn={gameState.isPlayerTurn}
+                  isAIThinking={isAIThinking}
+                  winningLine={gameState.winningLine}
+                  disabled={gameState.gameStatus !== "playing"}
+                />
+              ) : (
+                <GameBoard
+                  board={gameState.board}
+                  onCellClick={(row, col, mark) => makePlayerMove(row, col, mark)}
+                  isPlayerTurn={gameState.isPlayerTurn}
+                  isAIThinking={isAIThinking}
+                  winningLine={gameState.winningLine}
+                  winLength={gameState.rules.winLength}
+                  misere={gameState.rules.misere}
+                  gravity={gameState.rules.gravity}
+                  wild={gameState.rules.wild}
+                  expiringMark={nextExpiringMark}
+                  numberTarget={gameState.rules.numberTarget}
+                  toroidal={gameState.rules.toroidal}
+                  playerSymbol={isMultiPlayer || gameState.opening ? gameState.currentPlayer : humanPlayers[0]}
+                  currentPlayer={isMultiPlayer || gameState.opening ? gameState.currentPlayer : undefined}
+                  quantum={gameState.quantum}
+                  forbiddenMoves={forbiddenMoves}
+                  disabled={gameState.gameStatus !== "playing"}
+                />
+              )}
             </CardContent>
           </Card>
         </div>
@@ -392,7 +964,7 @@ export function TicTacToeGame() {
               <div className="grid grid-cols-3 gap-4 py-4">
                 <div className="text-center">
                   <div className="text-2xl font-bold text-green-600 dark:text-green-400">
-                    {gameScore.playerWins}
+                    {gameScore.humanWins}
                   </div>
                   <div className="text-sm text-gray-500 dark:text-gray-400">
                     Your Wins
@@ -400,7 +972,7 @@ export function TicTacToeGame() {
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-red-600 dark:text-red-400">
-                    {gameScore.aiWins}
+                    {gameStats.totalGames - gameScore.humanWins - gameScore.draws}
                   </div>
                   <div className="text-sm text-gray-500 dark:text-gray-400">
                     AI Wins
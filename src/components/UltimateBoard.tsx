@@ -0,0 +1,199 @@
+"use client";
+
+import {
+  Cell,
+  UltimateBoard as UltimateBoardType,
+  WinningLine,
+} from "@/types/game";
+import { isWinningPosition } from "@/utils/gameLogic";
+import { getPlayableSubBoards, getSubBoardIndex } from "@/utils/ultimateLogic";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface UltimateBoardProps {
+  ultimateBoard: UltimateBoardType;
+  onCellClick: (row: number, col: number) => void;
+  isPlayerTurn: boolean;
+  isAIThinking: boolean;
+  winningLine: WinningLine | null; // Meta coordinates of the winning small boards
+  disabled?: boolean;
+}
+
+export function UltimateBoard({
+  ultimateBoard,
+  onCellClick,
+  isPlayerTurn,
+  isAIThinking,
+  winningLine,
+  disabled = false,
+}: UltimateBoardProps) {
+  const canPlay = !disabled && isPlayerTurn && !isAIThinking;
+  const playableBoards = getPlayableSubBoards(ultimateBoard);
+
+  const handleCellClick = (row: number, col: number, cell: Cell) => {
+    const index = getSubBoardIndex(row, col);
+    if (!canPlay || cell !== null || !playableBoards.includes(index)) {
+      return;
+    }
+    onCellClick(row, col);
+  };
+
+  const getSubBoardClasses = (index: number) => {
+    const metaRow = Math.floor(index / 3);
+    const metaCol = index % 3;
+    const isActive = !disabled && playableBoards.includes(index);
+    const isWinning = isWinningPosition(metaRow, metaCol, winningLine);
+
+    return cn(
+      "relative grid grid-cols-3 gap-0.5 p-1 rounded-lg transition-all duration-200",
+      "bg-gray-300 dark:bg-gray-600",
+
+      // Boards the next move may be played in
+      isActive && [
+        "ring-2 ring-blue-400 dark:ring-blue-500",
+        "bg-blue-200 dark:bg-blue-900/60",
+      ],
+
+      // Dim boards that cannot be played in right now
+      !isActive && !isWinning && "opacity-70",
+
+      // Winning line of small boards
+      isWinning && "ring-2 ring-green-500 animate-pulse"
+    );
+  };
+
+  const getCellClasses = (index: number, cell: Cell) => {
+    const isClickable =
+      canPlay && cell === null && playableBoards.includes(index);
+
+    return cn(
+      "h-8 w-8 sm:h-10 sm:w-10 md:h-11 md:w-11 p-0",
+      "flex items-center justify-center rounded-sm",
+      "text-base sm:text-lg md:text-xl font-bold",
+      "bg-white dark:bg-gray-900",
+      "transition-all duration-200 ease-in-out",
+
+      isClickable && [
+        "hover:bg-gray-100 dark:hover:bg-gray-800",
+        "cursor-pointer",
+        "active:scale-95",
+      ],
+
+      cell === "X" && "text-blue-600 dark:text-blue-400",
+      cell === "O" && "text-red-600 dark:text-red-400"
+    );
+  };
+
+  return (
+    <div className="flex flex-col items-center space-y-6">
+      {/* Game Status */}
+      <div className="text-center">
+        {isAIThinking ? (
+          <div className="flex items-center justify-center space-x-2">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+            <span className="text-lg font-medium text-gray-600 dark:text-gray-300">
+              AI is thinking...
+            </span>
+          </div>
+        ) : (
+          <div className="text-lg font-medium">
+            {isPlayerTurn ? (
+              <span className="text-blue-600 dark:text-blue-400">
+                Your turn
+              </span>
+            ) : (
+              <span className="text-red-600 dark:text-red-400">
+                AI&apos;s turn
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Meta Board */}
+      <div
+        className="grid grid-cols-3 gap-2 p-3 bg-gray-200 dark:bg-gray-700 rounded-xl shadow-lg mx-auto"
+        role="grid"
+        aria-label="Ultimate TicTacToe game board"
+      >
+        {ultimateBoard.boards.map((board, index) => {
+          const metaRow = Math.floor(index / 3);
+          const metaCol = index % 3;
+          const owner = ultimateBoard.metaBoard[metaRow][metaCol];
+
+          return (
+            <div
+              key={index}
+              className={getSubBoardClasses(index)}
+              aria-label={`Small board ${metaRow + 1}, ${metaCol + 1}${
+                owner ? `, won by ${owner}` : ""
+              }`}
+            >
+              {board.map((cells, row) =>
+                cells.map((cell, col) => {
+                  const globalRow = metaRow * 3 + row;
+                  const globalCol = metaCol * 3 + col;
+
+                  return (
+                    <Button
+                      key={`${row}-${col}`}
+                      variant="ghost"
+                      className={getCellClasses(index, cell)}
+                      onClick={() =>
+                        handleCellClick(globalRow, globalCol, cell)
+                      }
+                      disabled={
+                        !canPlay ||
+                        cell !== null ||
+                        !playableBoards.includes(index)
+                      }
+                      role="gridcell"
+                      aria-label={
+                        cell
+                          ? `Cell ${globalRow + 1}, ${
+                              globalCol + 1
+                            }, occupied by ${cell}`
+                          : `Cell ${globalRow + 1}, ${globalCol + 1}, empty`
+                      }
+                    >
+                      <span className="select-none">{cell ?? ""}</span>
+                    </Button>
+                  );
+                })
+              )}
+
+              {/* Won small board overlay */}
+              {owner && (
+                <div
+                  className={cn(
+                    "absolute inset-0 flex items-center justify-center rounded-lg",
+                    "text-6xl md:text-7xl font-black pointer-events-none",
+                    "bg-white/70 dark:bg-gray-900/70",
+                    owner === "X"
+                      ? "text-blue-600 dark:text-blue-400"
+                      : "text-red-600 dark:text-red-400"
+                  )}
+                >
+                  {owner}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Game Instructions */}
+      <div className="text-sm text-gray-500 dark:text-gray-400 text-center max-w-md">
+        {canPlay &&
+          (playableBoards.length === 1
+            ? "Play in the highlighted board - your cell picks the AI's next board"
+            : "Free move - play in any highlighted board")}
+        {!isPlayerTurn &&
+          !isAIThinking &&
+          !disabled &&
+          "Wait for the AI to make its move"}
+        {disabled && "Game over - Start a new game to play again"}
+      </div>
+    </div>
+  );
+}
@@ -5,11 +5,22 @@ import {
   GameState,
   GameScore,
   AIMetrics,
+  AIProgress,
+  AIDecision,
   GameSettings,
   GameHistory,
   Player,
   Difficulty,
+  AIAlgorithm,
   Move,
+  GameMode,
+  BoardShape,
+  SwapRule,
+  MoveResult,
+  OpeningChoice,
+  OpeningState,
+  PlayerCount,
+  CubeSize,
   DEFAULT_GAME_STATE,
   DEFAULT_SCORE,
   DEFAULT_AI_METRICS,
@@ -19,13 +30,148 @@ import {
 } from "@/types/game";
 import { BoardSize } from "@/types/game";
 import {
-  makeMove,
-  checkWinner,
-  isBoardFull,
+  getExpiringMark,
+  getNextMover,
   getOpponent,
-  createEmptyBoard,
+  getNextPlayer,
+  getPlayers,
+  getDefaultWinLength,
+  getDropRow,
+  getForbiddenMoves,
 } from "@/utils/gameLogic";
-import { aiEngine } from "@/utils/aiEngine";
+import { createObstacleSeed } from "@/utils/boardShapes";
+import {
+  advanceOpening,
+  createOpening,
+  getOpeningAfterChoice,
+} from "@/utils/openingRules";
+import { aiClient } from "@/utils/aiClient";
+import { getGameRules, getGameVariant, getVariantId } from "@/utils/variants";
+
+/**
+ * Checks if a player's moves are made by a human
+ * Two-player games pit the chosen symbol against the AI (the other symbol
+ * once the sides are swapped in the opening); with more players each
+ * symbol is set to human or AI on its own
+ */
+function isHumanPlayer(
+  settings: GameSettings,
+  game: Pick<GameState, "rules" | "swapped">,
+  player: Player
+): boolean {
+  if ((game.rules.playerCount ?? 2) > 2) {
+    return settings.playerControls[player] === "human";
+  }
+
+  const humanSymbol = game.swapped
+    ? getOpponent(settings.playerSymbol)
+    : settings.playerSymbol;
+  return player === humanSymbol;
+}
+
+/**
+ * Builds a fresh game state for the given settings
+ */
+function createInitialGameState(settings: GameSettings): GameState {
+  const variant = getGameVariant(settings.gameMode);
+  const rules = getGameRules(settings);
+  const { width, height } = variant.getBoardSize(settings);
+  const opening = createOpening(rules);
+
+  return {
+    ...DEFAULT_GAME_STATE,
+    ...variant.createPosition(width, height, rules),
+    boardWidth: width,
+    boardHeight: height,
+    rules,
+    gameMode: settings.gameMode,
+    currentPlayer: PLAYER_X,
+    isPlayerTurn: isHumanPlayer(settings, { rules, swapped: false }, PLAYER_X),
+    difficulty: settings.difficulty,
+    opening,
+    swapped: false,
+  };
+}
+
+/**
+ * Works out whose turn it is after a move
+ * During an opening protocol the placer keeps the turn until all its marks
+ * are down, then the game waits for the chooser to pick a side; a quantum
+ * collapse leaves the turn with the player who chose it
+ */
+function getNextTurn(
+  settings: GameSettings,
+  gameState: GameState,
+  result: MoveResult,
+  move: Move,
+  player: Player
+): Pick<
+  GameState,
+  "currentPlayer" | "isPlayerTurn" | "gameStatus" | "opening"
+> {
+  const nextPlayer = move.collapse
+    ? player
+    : getNextPlayer(player, gameState.rules);
+  const opening =
+    gameState.opening && result.gameStatus === "playing"
+      ? advanceOpening(gameState.opening)
+      : null;
+
+  if (opening && opening.marks.length > 0) {
+    return {
+      currentPlayer: opening.marks[0],
+      isPlayerTurn: isHumanPlayer(settings, gameState, opening.placer),
+      gameStatus: "playing",
+      opening,
+    };
+  }
+
+  if (opening) {
+    return {
+      currentPlayer: nextPlayer,
+      isPlayerTurn: isHumanPlayer(settings, gameState, opening.chooser),
+      gameStatus: "deciding",
+      opening,
+    };
+  }
+
+  return {
+    currentPlayer: nextPlayer,
+    isPlayerTurn: isHumanPlayer(settings, gameState, nextPlayer),
+    gameStatus: result.gameStatus,
+    opening: null,
+  };
+}
+
+/**
+ * Applies an opening decision: swapping exchanges who controls X and O
+ * (the marks stay put), and Swap2's "place-two" starts another round of
+ * placing
+ */
+function applyOpeningChoice(
+  settings: GameSettings,
+  gameState: GameState,
+  opening: OpeningState,
+  choice: OpeningChoice
+): GameState {
+  const nextOpening = getOpeningAfterChoice(opening, choice);
+  const game = {
+    ...gameState,
+    swapped: choice === "swap" ? !gameState.swapped : gameState.swapped,
+  };
+
+  return {
+    ...game,
+    opening: nextOpening,
+    gameStatus: "playing",
+    currentPlayer: nextOpening ? nextOpening.marks[0] : game.currentPlayer,
+    isPlayerTurn: isHumanPlayer(
+      settings,
+      game,
+      nextOpening ? nextOpening.placer : game.currentPlayer
+    ),
+  };
+}
 
 /**
  * Custom hook for managing TicTacToe game state
@@ -43,6 +189,10 @@ export function useGameState() {
   // Game timing
   const [gameStartTime, setGameStartTime] = useState<number>(Date.now());
   const [isAIThinking, setIsAIThinking] = useState<boolean>(false);
+  const [aiProgress, setAIProgress] = useState<AIProgress | null>(null);
+  // Why the AI failed to move this game (it isn't asked again until a new
+  // game, as it would only fail the same way)
+  const [aiError, setAIError] = useState<string | null>(null);
   const [currentMoves, setCurrentMoves] = useState<Move[]>([]);
 
   // Load saved data from localStorage on mount
@@ -53,11 +203,49 @@ export function useGameState() {
         const savedSettings = localStorage.getItem("tictactoe-settings");
         const savedHistory = localStorage.getItem("tictactoe-history");
 
+        // Merge with defaults so settings saved by older versions
+        // pick up newly added fields; square boards used to be saved
+        // as a single boardSize, and games were played to a full line
+        // before the win length could be chosen
+        const { boardSize, ...saved } = savedSettings
+          ? JSON.parse(savedSettings)
+          : {};
+        const settings: GameSettings = {
+          ...DEFAULT_GAME_SETTINGS,
+          ...(boardSize && { boardWidth: boardSize, boardHeight: boardSize }),
+          ...saved,
+        };
+        if (saved.winLength === undefined) {
+          settings.winLength = getDefaultWinLength(
+            settings.boardWidth,
+            settings.boardHeight
+          );
+        }
+
         if (savedScore) {
-          setGameScore(JSON.parse(savedScore));
+          // Scores used to be kept as player and AI wins; credit them to
+          // the symbols the two sides were playing
+          const { playerWins, aiWins, ...score } = JSON.parse(savedScore);
+          setGameScore({
+            ...DEFAULT_SCORE,
+            ...(playerWins !== undefined && {
+              wins: {
+                ...DEFAULT_SCORE.wins,
+                [settings.playerSymbol]: playerWins,
+                [settings.aiSymbol]: aiWins ?? 0,
+              },
+              humanWins: playerWins,
+            }),
+            ...score,
+            // Levels added since the score was saved start at zero
+            byDifficulty: {
+              ...DEFAULT_SCORE.byDifficulty,
+              ...score.byDifficulty,
+            },
+          });
         }
         if (savedSettings) {
-          setGameSettings(JSON.parse(savedSettings));
+          setGameSettings(settings);
         }
         if (savedHistory) {
           setGameHistory(JSON.parse(savedHistory));
@@ -91,33 +279,48 @@ export function useGameState() {
 
   /**
    * Updates the game score based on the winner
+   * Streaks follow the human players: a win by any of them extends a
+   * winning streak, a win by an AI a losing one; the result is also
+   * counted for the AI level it was played at
    */
   const updateGameScore = useCallback(
     (winner: Player | null) => {
       setGameScore((prevScore) => {
-        const newScore = { ...prevScore };
+        const newScore = {
+          ...prevScore,
+          wins: winner
+            ? { ...prevScore.wins, [winner]: prevScore.wins[winner] + 1 }
+            : prevScore.wins,
+        };
+        const record = { ...prevScore.byDifficulty[gameSettings.difficulty] };
 
-        if (winner === gameSettings.playerSymbol) {
-          newScore.playerWins += 1;
+        if (winner && isHumanPlayer(gameSettings, gameState, winner)) {
+          newScore.humanWins += 1;
           newScore.currentStreak =
             prevScore.streakType === "win" ? prevScore.currentStreak + 1 : 1;
           newScore.streakType = "win";
-        } else if (winner === gameSettings.aiSymbol) {
-          newScore.aiWins += 1;
+          record.wins += 1;
+        } else if (winner) {
           newScore.currentStreak =
             prevScore.streakType === "loss" ? prevScore.currentStreak + 1 : 1;
           newScore.streakType = "loss";
+          record.losses += 1;
         } else {
           newScore.draws += 1;
           newScore.currentStreak =
             prevScore.streakType === "draw" ? prevScore.currentStreak + 1 : 1;
           newScore.streakType = "draw";
+          record.draws += 1;
         }
 
+        newScore.byDifficulty = {
+          ...prevScore.byDifficulty,
+          [gameSettings.difficulty]: record,
+        };
         return newScore;
       });
     },
-    [gameSettings]
+    [gameSettings, gameState]
   );
 
   /**
@@ -130,19 +333,43 @@ export function useGameState() {
         duration: Date.now() - gameStartTime,
         winner,
         difficulty: gameSettings.difficulty,
+        misere: gameState.rules.misere ?? false,
+        gameMode: gameState.gameMode,
         timestamp: Date.now(),
+        // Enough to replay the game even if the settings change later
+        variant: getVariantId(gameSettings),
+        rules: gameState.rules,
+        boardWidth: gameState.boardWidth,
+        boardHeight: gameState.boardHeight,
       };
 
       setGameHistory((prev) => [gameHistoryEntry, ...prev.slice(0, 49)]); // Keep last 50 games
     },
-    [gameStartTime, gameSettings.difficulty]
+    [
+      gameStartTime,
+      gameSettings,
+      gameState.rules,
+      gameState.gameMode,
+      gameState.boardWidth,
+      gameState.boardHeight,
+    ]
   );
 
   /**
    * Makes a player move
+   * @param options - Cube layer of the move (3D mode), the mark to place
+   * (wild and numerical games), and the second cell or collapse choice
+   * (Quantum mode)
    */
   const makePlayerMove = useCallback(
-    (row: number, col: number): boolean => {
+    (
+      row: number,
+      col: number,
+      options: Pick<
+        Move,
+        "layer" | "symbol" | "value" | "pair" | "collapse"
+      > = {}
+    ): boolean => {
       if (
         gameState.gameStatus !== "playing" ||
         !gameState.isPlayerTurn ||
@@ -151,35 +378,47 @@ export function useGameState() {
         return false;
       }
 
+      // With gravity a click anywhere in a column drops to its lowest
+      // empty cell
+      const targetRow =
+        gameState.rules.gravity && gameState.gameMode === "classic"
+          ? getDropRow(gameState.board, col)
+          : row;
+      if (targetRow === null) {
+        return false;
+      }
+
       try {
-        const newBoard = makeMove(
-          gameState.board,
-          row,
+        const player = gameState.currentPlayer;
+        const move: Move = {
+          ...options,
+          row: targetRow,
           col,
-          gameSettings.playerSymbol
+          symbol: options.symbol ?? player,
+        };
+        const result = getGameVariant(gameState.gameMode).applyMove(
+          gameState,
+          move,
+          player,
+          currentMoves,
+          gameState.rules
         );
-        const { winner, winningLine } = checkWinner(newBoard);
-        const isDraw = !winner && isBoardFull(newBoard);
 
-        const newMoves = [...currentMoves, { row, col }];
+        const newMoves = [...currentMoves, move];
         setCurrentMoves(newMoves);
 
         const newGameState: GameState = {
           ...gameState,
-          board: newBoard,
-          currentPlayer: gameSettings.aiSymbol,
-          gameStatus: winner ? "won" : isDraw ? "draw" : "playing",
-          winner,
-          winningLine,
-          isPlayerTurn: false,
+          ...result,
+          ...getNextTurn(gameSettings, gameState, result, move, player),
         };
 
         setGameState(newGameState);
 
         // If game is over, update scores
-        if (winner || isDraw) {
-          updateGameScore(winner);
-          saveGameToHistory(newMoves, winner);
+        if (result.gameStatus !== "playing") {
+          updateGameScore(result.winner);
+          saveGameToHistory(newMoves, result.winner);
         }
 
         return true;
@@ -200,96 +439,166 @@ export function useGameState() {
 
   /**
    * Makes an AI move
+   * The search runs in the AI worker, reporting its progress as it goes; a
+   * new game cancels it, and its result is then dropped. When the AI has
+   * no move left to play (every empty cell forbidden, or a blocked
+   * position) the game ends in a draw; a failed search stops the AI for
+   * the rest of the game (aiError).
    */
   const makeAIMove = useCallback(async (): Promise<void> => {
     if (
-      gameState.gameStatus !== "playing" ||
+      (gameState.gameStatus !== "playing" &&
+        gameState.gameStatus !== "deciding") ||
       gameState.isPlayerTurn ||
-      isAIThinking
+      isAIThinking ||
+      aiError
     ) {
       return;
     }
 
     setIsAIThinking(true);
+    setAIProgress(null);
 
-    // Add a small delay to show thinking state
-    await new Promise((resolve) => setTimeout(resolve, 300));
-
+    let decision: AIDecision | null = null;
     try {
-      const aiResult = aiEngine.getBestMove(
-        gameState.board,
-        gameSettings.aiSymbol,
-        gameSettings.difficulty
+      const aiPlayer = gameState.currentPlayer;
+      decision = await aiClient.requestDecision(
+        {
+          gameState,
+          player: aiPlayer,
+          difficulty: gameSettings.difficulty,
+          algorithm: gameSettings.aiAlgorithm,
+          moves: currentMoves,
+        },
+        setAIProgress
       );
 
-      if (!aiResult.move) {
-        setIsAIThinking(false);
+      // Cancelled by a new game, which has reset the AI state itself
+      if (!decision) return;
+
+      const { opening } = gameState;
+
+      // Opening decisions are taken without placing a mark
+      if (opening && decision.choice) {
+        setGameState(
+          applyOpeningChoice(gameSettings, gameState, opening, decision.choice)
+        );
+        setAIMetrics(decision.metrics);
         return;
       }
 
-      const newBoard = makeMove(
-        gameState.board,
-        aiResult.move.row,
-        aiResult.move.col,
-        gameSettings.aiSymbol
-      );
+      const { move } = decision;
+      // Nobody has won, and the AI can't play on
+      if (!move) {
+        setGameState({ ...gameState, gameStatus: "draw", winner: null });
+        setAIMetrics(decision.metrics);
+        updateGameScore(null);
+        saveGameToHistory(currentMoves, null);
+        return;
+      }
 
-      const { winner, winningLine } = checkWinner(newBoard);
-      const isDraw = !winner && isBoardFull(newBoard);
+      const variant = getGameVariant(gameState.gameMode);
+      const result = variant.applyMove(
+        gameState,
+        move,
+        aiPlayer,
+        currentMoves,
+        gameState.rules
+      );
 
-      const newMoves = [...currentMoves, aiResult.move];
+      const newMoves = [...currentMoves, move];
       setCurrentMoves(newMoves);
 
+      // Several AI players may move in a row before a human is up again
       const newGameState: GameState = {
         ...gameState,
-        board: newBoard,
-        currentPlayer: gameSettings.playerSymbol,
-        gameStatus: winner ? "won" : isDraw ? "draw" : "playing",
-        winner,
-        winningLine,
-        isPlayerTurn: true,
+        ...result,
+        ...getNextTurn(gameSettings, gameState, result, move, aiPlayer),
       };
 
       setGameState(newGameState);
-      setAIMetrics(aiResult.metrics);
+      setAIMetrics(decision.metrics);
 
       // If game is over, update scores
-      if (winner || isDraw) {
-        updateGameScore(winner);
-        saveGameToHistory(newMoves, winner);
+      if (result.gameStatus !== "playing") {
+        updateGameScore(result.winner);
+        saveGameToHistory(newMoves, result.winner);
       }
     } catch (error) {
       console.error("Failed to make AI move:", error);
-    } finally {
+      setAIError(error instanceof Error ? error.message : String(error));
       setIsAIThinking(false);
+    } finally {
+      if (decision) {
+        setIsAIThinking(false);
+        setAIProgress(null);
+      }
     }
   }, [
     gameState,
     gameSettings,
     isAIThinking,
+    aiError,
     currentMoves,
     updateGameScore,
     saveGameToHistory,
   ]);
 
   /**
-   * Starts a new game
+   * Takes an opening decision for a human chooser (pie rule or Swap2)
    */
-  const startNewGame = useCallback(() => {
-    setGameState({
-      ...DEFAULT_GAME_STATE,
-      board: createEmptyBoard(gameSettings.boardSize),
-      boardSize: gameSettings.boardSize,
-      currentPlayer: gameSettings.playerSymbol,
-      isPlayerTurn: gameSettings.playerSymbol === PLAYER_X,
-      difficulty: gameSettings.difficulty,
-    });
+  const chooseOpening = useCallback(
+    (choice: OpeningChoice): boolean => {
+      const { opening } = gameState;
+      if (
+        gameState.gameStatus !== "deciding" ||
+        !gameState.isPlayerTurn ||
+        !opening?.choices.includes(choice) ||
+        isAIThinking
+      ) {
+        return false;
+      }
+
+      setGameState(
+        applyOpeningChoice(gameSettings, gameState, opening, choice)
+      );
+      return true;
+    },
+    [gameState, gameSettings, isAIThinking]
+  );
+
+  /**
+   * Starts a fresh game using the given settings
+   */
+  const restartGame = useCallback((settings: GameSettings) => {
+    setGameState(createInitialGameState(settings));
     setAIMetrics(DEFAULT_AI_METRICS);
     setGameStartTime(Date.now());
     setCurrentMoves([]);
     setIsAIThinking(false);
-    aiEngine.reset();
-  }, [gameSettings]);
+    setAIProgress(null);
+    setAIError(null);
+    aiClient.reset();
+  }, []);
+
+  /**
+   * Applies new settings and starts a new game with them
+   */
+  const applySettingsAndRestart = useCallback(
+    (changes: Partial<GameSettings>) => {
+      const newSettings = { ...gameSettings, ...changes };
+      setGameSettings(newSettings);
+      restartGame(newSettings);
+    },
+    [gameSettings, restartGame]
+  );
+
+  /**
+   * Starts a new game
+   */
+  const startNewGame = useCallback(() => {
+    restartGame(gameSettings);
+  }, [gameSettings, restartGame]);
 
   /**
    * Changes the difficulty level
@@ -300,35 +609,183 @@ export function useGameState() {
   }, []);
 
   /**
-   * Changes the board size
+   * Changes the search the AI runs above easy (takes effect on its next
+   * move)
+   */
+  const changeAIAlgorithm = useCallback((aiAlgorithm: AIAlgorithm) => {
+    setGameSettings((prev) => ({ ...prev, aiAlgorithm }));
+  }, []);
+
+  /**
+   * Changes the board size (width x height, square when height is omitted)
    */
   const changeBoardSize = useCallback(
-    (boardSize: BoardSize) => {
+    (boardWidth: BoardSize, boardHeight: BoardSize = boardWidth) => {
       // Validate board size
-      if (boardSize < 3 || boardSize > 10) {
+      if (
+        boardWidth < 3 ||
+        boardWidth > 10 ||
+        boardHeight < 3 ||
+        boardHeight > 10
+      ) {
         console.warn(
-          `Invalid board size: ${boardSize}. Must be between 3 and 10.`
+          `Invalid board size: ${boardWidth}x${boardHeight}. Each side must be between 3 and 10.`
         );
         return;
       }
 
-      setGameSettings((prev) => ({ ...prev, boardSize }));
-      // Start a new game with the new board size
-      setGameState({
-        ...DEFAULT_GAME_STATE,
-        board: createEmptyBoard(boardSize),
-        boardSize,
-        currentPlayer: gameSettings.playerSymbol,
-        isPlayerTurn: gameSettings.playerSymbol === PLAYER_X,
-        difficulty: gameSettings.difficulty,
+      // Start a new game with the new board size, played to a full line
+      // again (a win length picked for the old board rarely suits it)
+      applySettingsAndRestart({
+        boardWidth,
+        boardHeight,
+        winLength: getDefaultWinLength(boardWidth, boardHeight),
       });
-      setAIMetrics(DEFAULT_AI_METRICS);
-      setGameStartTime(Date.now());
-      setCurrentMoves([]);
-      setIsAIThinking(false);
-      aiEngine.reset();
     },
-    [gameSettings]
+    [applySettingsAndRestart]
+  );
+
+  /**
+   * Changes how many marks in a row are needed to win
+   */
+  const changeWinLength = useCallback(
+    (winLength: number) => {
+      // Validate win length against the current board size
+      const longestLine = Math.max(
+        gameSettings.boardWidth,
+        gameSettings.boardHeight
+      );
+      if (winLength < 3 || winLength > longestLine) {
+        console.warn(
+          `Invalid win length: ${winLength}. Must be between 3 and ${longestLine}.`
+        );
+        return;
+      }
+
+      // Start a new game with the new win length
+      applySettingsAndRestart({ winLength });
+    },
+    [gameSettings.boardWidth, gameSettings.boardHeight, applySettingsAndRestart]
+  );
+
+  /**
+   * Toggles misère rules (completing a line loses)
+   */
+  const toggleMisere = useCallback(() => {
+    applySettingsAndRestart({ misere: !gameSettings.misere });
+  }, [gameSettings.misere, applySettingsAndRestart]);
+
+  /**
+   * Toggles gravity (Connect-Four style drops)
+   */
+  const toggleGravity = useCallback(() => {
+    applySettingsAndRestart({ gravity: !gameSettings.gravity });
+  }, [gameSettings.gravity, applySettingsAndRestart]);
+
+  /**
+   * Toggles wild rules (each turn either symbol may be placed)
+   */
+  const toggleWild = useCallback(() => {
+    applySettingsAndRestart({ wild: !gameSettings.wild });
+  }, [gameSettings.wild, applySettingsAndRestart]);
+
+  /**
+   * Toggles sliding rules (each player keeps only their newest marks)
+   */
+  const toggleSliding = useCallback(() => {
+    applySettingsAndRestart({ sliding: !gameSettings.sliding });
+  }, [gameSettings.sliding, applySettingsAndRestart]);
+
+  /**
+   * Toggles numerical rules (odd and even numbers summing to a target)
+   */
+  const toggleNumerical = useCallback(() => {
+    applySettingsAndRestart({ numerical: !gameSettings.numerical });
+  }, [gameSettings.numerical, applySettingsAndRestart]);
+
+  /**
+   * Toggles the toroidal board (lines wrap around the edges)
+   */
+  const toggleToroidal = useCallback(() => {
+    applySettingsAndRestart({ toroidal: !gameSettings.toroidal });
+  }, [gameSettings.toroidal, applySettingsAndRestart]);
+
+  /**
+   * Toggles Renju restrictions for X (exact five, no double three or four)
+   */
+  const toggleRenju = useCallback(() => {
+    applySettingsAndRestart({ renju: !gameSettings.renju });
+  }, [gameSettings.renju, applySettingsAndRestart]);
+
+  /**
+   * Changes the game mode (classic grid, Ultimate Tic-Tac-Toe or 3D)
+   */
+  const changeGameMode = useCallback(
+    (gameMode: GameMode) => {
+      applySettingsAndRestart({ gameMode });
+    },
+    [applySettingsAndRestart]
+  );
+
+  /**
+   * Changes the board shape (blocked cells); picking the random shape
+   * again draws a new layout
+   */
+  const changeBoardShape = useCallback(
+    (boardShape: BoardShape) => {
+      applySettingsAndRestart(
+        boardShape === "random"
+          ? { boardShape, obstacleSeed: createObstacleSeed() }
+          : { boardShape }
+      );
+    },
+    [applySettingsAndRestart]
+  );
+
+  /**
+   * Changes the opening protocol (off, pie rule or Swap2)
+   */
+  const changeSwapRule = useCallback(
+    (swapRule: SwapRule) => {
+      applySettingsAndRestart({ swapRule });
+    },
+    [applySettingsAndRestart]
+  );
+
+  /**
+   * Changes the cube size used in 3D mode
+   */
+  const changeCubeSize = useCallback(
+    (cubeSize: CubeSize) => {
+      applySettingsAndRestart({ cubeSize });
+    },
+    [applySettingsAndRestart]
+  );
+
+  /**
+   * Changes the number of players (three and four play classic games only)
+   */
+  const changePlayerCount = useCallback(
+    (playerCount: PlayerCount) => {
+      applySettingsAndRestart({ playerCount });
+    },
+    [applySettingsAndRestart]
+  );
+
+  /**
+   * Switches a player between human and AI control (3-4 player games)
+   */
+  const togglePlayerControl = useCallback(
+    (player: Player) => {
+      applySettingsAndRestart({
+        playerControls: {
+          ...gameSettings.playerControls,
+          [player]:
+            gameSettings.playerControls[player] === "human" ? "ai" : "human",
+        },
+      });
+    },
+    [gameSettings.playerControls, applySettingsAndRestart]
   );
 
   /**
@@ -339,14 +796,11 @@ export function useGameState() {
       gameSettings.playerSymbol === PLAYER_X ? PLAYER_O : PLAYER_X;
     const newAISymbol = getOpponent(newPlayerSymbol);
 
-    setGameSettings((prev) => ({
-      ...prev,
+    applySettingsAndRestart({
       playerSymbol: newPlayerSymbol,
       aiSymbol: newAISymbol,
-    }));
-
-    startNewGame();
-  }, [gameSettings.playerSymbol, startNewGame]);
+    });
+  }, [gameSettings.playerSymbol, applySettingsAndRestart]);
 
   /**
    * Resets all scores and history
@@ -365,9 +819,10 @@ export function useGameState() {
    */
   const getGameStats = useCallback(() => {
     const totalGames =
-      gameScore.playerWins + gameScore.aiWins + gameScore.draws;
+      Object.values(gameScore.wins).reduce((sum, wins) => sum + wins, 0) +
+      gameScore.draws;
     const winRate =
-      totalGames > 0 ? (gameScore.playerWins / totalGames) * 100 : 0;
+      totalGames > 0 ? (gameScore.humanWins / totalGames) * 100 : 0;
 
     return {
       totalGames,
@@ -387,31 +842,75 @@ export function useGameState() {
   useEffect(() => {
     if (
       !gameState.isPlayerTurn &&
-      gameState.gameStatus === "playing" &&
-      !isAIThinking
+      (gameState.gameStatus === "playing" ||
+        gameState.gameStatus === "deciding") &&
+      !isAIThinking &&
+      !aiError
     ) {
       makeAIMove();
     }
-  }, [gameState.isPlayerTurn, gameState.gameStatus, isAIThinking, makeAIMove]);
+  }, [
+    gameState.isPlayerTurn,
+    gameState.gameStatus,
+    isAIThinking,
+    aiError,
+    makeAIMove,
+  ]);
 
   return {
     // Game state
     gameState,
     gameScore,
     aiMetrics,
+    aiProgress,
+    aiError,
     gameSettings,
     gameHistory,
     isAIThinking,
 
     // Actions
     makePlayerMove,
+    chooseOpening,
     startNewGame,
     changeDifficulty,
+    changeAIAlgorithm,
     changeBoardSize,
+    changeWinLength,
+    toggleMisere,
+    toggleGravity,
+    toggleWild,
+    toggleSliding,
+    toggleNumerical,
+    toggleToroidal,
+    toggleRenju,
+    changeBoardShape,
+    changeSwapRule,
+    changeGameMode,
+    changeCubeSize,
+    changePlayerCount,
+    togglePlayerControl,
     switchPlayerSymbol,
     resetStats,
 
     // Computed values
     gameStats: getGameStats(),
+    // Players whose moves are made by a human
+    humanPlayers: getPlayers(gameState.rules).filter((player) =>
+      isHumanPlayer(gameSettings, gameState, player)
+    ),
+    // Mark the player to move loses with their next move (sliding games)
+    nextExpiringMark:
+      gameState.gameStatus === "playing"
+        ? getExpiringMark(
+            currentMoves,
+            getNextMover(currentMoves),
+            gameState.rules
+          )
+        : null,
+    // Cells X may not take on its turn (Renju games)
+    forbiddenMoves:
+      gameState.gameStatus === "playing" && gameState.gameMode === "classic"
+        ? getForbiddenMoves(gameState.board, gameState.rules)
+        : [],
   };
 }
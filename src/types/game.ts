@@ -2,44 +2,171 @@
  * Core types for TicTacToe game
  */
 
-// Player types
-export type Player = "X" | "O";
-export type Cell = Player | null;
+// Player types (Δ and □ join X and O in three- and four-player games)
+export type Player = "X" | "O" | "Δ" | "□";
 
-// Board representation (dynamic size)
+// Number of players in a classic game (turns go X, O, Δ, □)
+export type PlayerCount = 2 | 3 | 4;
+
+// Who makes the moves for a player
+export type PlayerControl = "human" | "ai";
+
+// What can occupy a cell: a player's symbol, or a number in numerical games
+export type Mark = Player | number;
+
+// Permanently blocked cell on shaped boards (never holds a mark)
+export type Blocked = "#";
+export type Cell = Mark | Blocked | null;
+
+// Board representation (dynamic size, rows x columns)
 export type Board = Cell[][];
 
 // Game difficulty levels
-export type Difficulty = "easy" | "hard";
+export type Difficulty = "easy" | "medium" | "strong" | "hard";
 
-// Game status
-export type GameStatus = "playing" | "won" | "draw";
+// Search the AI runs above easy: minimax with alpha-beta pruning, or Monte Carlo
+// tree search (random playouts steered by UCT)
+export type AIAlgorithm = "minimax" | "mcts";
 
-// Board size options (minimum 3, maximum 10)
+// Game status ("deciding" while an opening protocol waits for a side to
+// be picked)
+export type GameStatus = "playing" | "won" | "draw" | "deciding";
+
+// Board size options per dimension (minimum 3, maximum 10)
 export type BoardSize = 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10;
 
 // Winning combinations for dynamic board sizes
 export type WinningLine = [number, number][];
 
+// Board shapes for classic games: blocked cells cut the grid into a plus,
+// a diamond or a board with holes, or are scattered from a seed
+export type BoardShape = "full" | "plus" | "diamond" | "holes" | "random";
+
+// Opening protocols that offset the first player's advantage: under the
+// pie rule the second player may take over X after its first move; under
+// Swap2 the first player places X, O and X and the second player picks
+export type SwapRule = "none" | "pie" | "swap2";
+
+// Decisions in an opening protocol: take the other side, keep the current
+// one, or (Swap2) place an O and an X and let the opponent pick
+export type OpeningChoice = "swap" | "keep" | "place-two";
+
+// Opening protocol in progress; sides are named by the symbol they hold
+export interface OpeningState {
+  marks: Player[]; // Marks still to place before the decision, in order
+  placer: Player; // Side placing them
+  chooser: Player; // Side deciding once they are placed
+  choices: OpeningChoice[];
+}
+
+// Game modes (classic covers every rule set played on a single grid)
+export type GameMode = "classic" | "ultimate" | "cube" | "quantum";
+
+// Ultimate Tic-Tac-Toe: nine 3x3 small boards inside a 3x3 meta board.
+// Moves use global 9x9 coordinates; small board index = metaRow * 3 + metaCol
+export interface UltimateBoard {
+  boards: Board[]; // The nine small boards
+  metaBoard: Board; // Winner of each small board (null while undecided)
+  activeBoard: number | null; // Board the next move must go in (null = any open board)
+}
+
+// 3D tic-tac-toe (Qubic): a stack of square layers, indexed [layer][row][col]
+export type Cube = Board[];
+
+// Cube edge length (3x3x3 or 4x4x4)
+export type CubeSize = 3 | 4;
+
+// A cell of the cube as [layer, row, col]
+export type CubePosition = [number, number, number];
+
+// Quantum tic-tac-toe: each move puts a spooky mark in two cells at once.
+// Marks carry the number of the move that placed them (shown as a subscript)
+export interface QuantumMark {
+  player: Player;
+  move: number;
+}
+
+// A cell holds spooky marks until it collapses to a single classical mark
+export interface QuantumCell {
+  classical: QuantumMark | null;
+  spooky: QuantumMark[];
+}
+
+// Cycle in the entanglement graph waiting to be collapsed by the player
+// who did not close it
+export interface QuantumCollapse {
+  mark: QuantumMark; // Move that closed the cycle
+  cells: [number, number][]; // Its two cells - the choice is between them
+  cycle: [number, number][]; // Every cell on the cycle
+}
+
+export interface QuantumState {
+  cells: QuantumCell[][];
+  moveCount: number; // Moves placed so far (the last subscript)
+  pendingCollapse: QuantumCollapse | null;
+}
+
+// Winning lines in 3D (rows, columns, pillars, plane and space diagonals)
+export type CubeWinningLine = CubePosition[];
+
+// Rule set for an m,n,k game (k marks in a row wins on an m x n board)
+export interface GameRules {
+  winLength: number; // Marks in a row needed to win (3 up to the board size)
+  misere?: boolean; // Misère: completing a line loses instead of winning
+  gravity?: boolean; // Connect-Four style: marks drop to the lowest empty cell
+  wild?: boolean; // Wild: either player may place X or O on each turn
+  maxMarks?: number; // Sliding: marks each player keeps (oldest is removed)
+  numberTarget?: number; // Numerical: a full line summing to this wins
+  toroidal?: boolean; // Lines wrap around the board edges
+  blockedCells?: [number, number][]; // Shaped boards: cells no line crosses
+  playerCount?: PlayerCount; // Players taking turns (two when omitted)
+  swapRule?: Exclude<SwapRule, "none">; // Opening protocol
+  renju?: boolean; // Renju: X needs exactly a full line and can't make doubles
+}
+
 // Game state interface
 export interface GameState {
   board: Board;
-  boardSize: BoardSize;
+  boardWidth: BoardSize; // Number of columns
+  boardHeight: BoardSize; // Number of rows
+  rules: GameRules;
+  gameMode: GameMode;
+  ultimateBoard: UltimateBoard | null; // Set in Ultimate mode
+  cube: Cube | null; // Set in 3D mode
+  quantum: QuantumState | null; // Set in Quantum mode
+  cubeWinningLine: CubeWinningLine | null; // Winning line in 3D mode
   currentPlayer: Player;
   gameStatus: GameStatus;
   winner: Player | null;
   winningLine: WinningLine | null;
   isPlayerTurn: boolean;
   difficulty: Difficulty;
+  opening: OpeningState | null; // Set until the opening protocol is settled
+  swapped: boolean; // Sides were exchanged during the opening
+  lineStats: LineStats | null; // After the last move on the classic grid
+}
+
+// Line statistics of a classic board, per player
+export interface LineStats {
+  openLines: Record<Player, number>; // Lines nobody else has a mark on
+  longestRun: Record<Player, number>; // Most marks in a row along a line
 }
 
 // Score tracking
 export interface GameScore {
-  playerWins: number;
-  aiWins: number;
+  wins: Record<Player, number>; // Games won by each symbol
+  humanWins: number; // Games won by a human-controlled player
   draws: number;
   currentStreak: number;
   streakType: "win" | "loss" | "draw" | null;
+  byDifficulty: Record<Difficulty, DifficultyRecord>; // Results per AI level
+}
+
+// Results of the games played at one AI level (wins are the humans')
+export interface DifficultyRecord {
+  wins: number;
+  losses: number;
+  draws: number;
 }
 
 // AI performance metrics
@@ -47,21 +174,90 @@ export interface AIMetrics {
   positionsEvaluated: number;
   thinkingTime: number; // milliseconds
   lastMoveScore: number; // minimax score
+  depthReached: number; // deepest completed search iteration (0 if none)
+  ttHitRate: number; // share of transposition table lookups that hit (0-1)
+  simulations: number; // Monte Carlo playouts run (0 for minimax)
+  moveStats: MoveStatistic[]; // most visited root moves of a Monte Carlo search
+  forcedWin: boolean; // threat-space search found a forced win for the AI
+}
+
+// Visits and results of a root move in a Monte Carlo search
+export interface MoveStatistic {
+  move: Move;
+  visits: number;
+  winRate: number; // share of its playouts won (draws count half)
+}
+
+// Search state the AI reports while it is still thinking
+export interface AIProgress {
+  bestMove: Move | null; // best move found so far
+  positionsEvaluated: number;
+}
+
+// What the AI is asked to decide on: its next move, or the opening choice
+// when the game is waiting for one
+export interface AIRequest {
+  gameState: GameState;
+  player: Player;
+  difficulty: Difficulty;
+  algorithm: AIAlgorithm;
+  moves: Move[]; // Moves played so far, oldest first
+}
+
+// The AI's answer to a request (exactly one of move and choice is set,
+// unless there was no move left to make)
+export interface AIDecision {
+  move: Move | null;
+  choice: OpeningChoice | null;
+  metrics: AIMetrics;
 }
 
+// Messages the page sends the AI worker
+export type AIWorkerRequest =
+  | { type: "decide"; id: number; request: AIRequest }
+  | { type: "reset" }; // New game: forget the positions searched so far
+
+// Messages the AI worker sends back, tagged with the id of their request
+export type AIWorkerResponse =
+  | { type: "progress"; id: number; progress: AIProgress }
+  | { type: "decision"; id: number; decision: AIDecision }
+  | { type: "error"; id: number; message: string };
+
 // Move interface for AI and game logic
 export interface Move {
   row: number;
   col: number;
+  layer?: number; // Cube layer in 3D mode
+  symbol?: Player; // Mark placed (differs from the mover in wild games)
+  value?: number; // Number placed in numerical games
+  pair?: [number, number]; // Quantum: second cell of the spooky mark
+  collapse?: boolean; // Quantum: collapses the pending cycle into this cell
   score?: number; // For minimax evaluation
 }
 
 // Game settings
 export interface GameSettings {
   difficulty: Difficulty;
+  aiAlgorithm: AIAlgorithm;
   playerSymbol: Player; // Player always starts as X or O
   aiSymbol: Player;
-  boardSize: BoardSize;
+  playerCount: PlayerCount;
+  playerControls: Record<Player, PlayerControl>; // Seats in 3-4 player games
+  boardWidth: BoardSize;
+  boardHeight: BoardSize;
+  winLength: number;
+  misere: boolean;
+  gravity: boolean;
+  wild: boolean;
+  sliding: boolean;
+  numerical: boolean;
+  toroidal: boolean;
+  boardShape: BoardShape;
+  obstacleSeed: number; // Seed for the random board shape
+  swapRule: SwapRule;
+  renju: boolean;
+  gameMode: GameMode;
+  cubeSize: CubeSize;
 }
 
 // Game history for advanced features
@@ -70,7 +266,83 @@ export interface GameHistory {
   duration: number; // Game duration in milliseconds
   winner: Player | null;
   difficulty: Difficulty;
+  misere: boolean;
+  gameMode: GameMode;
   timestamp: number;
+  // Replay data (missing from games saved by older versions)
+  variant?: string; // Variant id, e.g. "classic+gravity+misere"
+  rules?: GameRules;
+  boardWidth?: BoardSize;
+  boardHeight?: BoardSize;
+}
+
+// Rule variants layered on the classic grid
+export type RuleVariantId =
+  | "k-in-a-row"
+  | "misere"
+  | "gravity"
+  | "wild"
+  | "sliding"
+  | "numerical"
+  | "toroidal"
+  | "shaped"
+  | "multiplayer"
+  | "swap"
+  | "renju";
+
+// Board and outcome of a game in progress (only the active mode's board
+// is set beyond the classic grid)
+export type GamePosition = Pick<
+  GameState,
+  "board" | "ultimateBoard" | "cube" | "quantum"
+>;
+export type MoveResult = GamePosition &
+  Pick<
+    GameState,
+    "cubeWinningLine" | "gameStatus" | "winner" | "winningLine" | "lineStats"
+  >;
+
+// A game variant owns a board: how a game starts, how moves are played
+// and how the AI picks one. Rule variants adjust the classic variant
+export interface GameVariant {
+  id: GameMode;
+  name: string;
+  description: string;
+  supportsRuleVariants: boolean; // Rule variants only apply to this board
+  getBoardSize(settings: GameSettings): { width: BoardSize; height: BoardSize };
+  getRules(settings: GameSettings): GameRules; // Before any rule variants
+  createPosition(
+    width: BoardSize,
+    height: BoardSize,
+    rules: GameRules
+  ): GamePosition;
+  // Plays a move (throws if it is not legal) and reports the result
+  applyMove(
+    position: GamePosition,
+    move: Move,
+    player: Player,
+    moves: Move[],
+    rules: GameRules
+  ): MoveResult;
+  getAIMove(
+    position: GamePosition,
+    player: Player,
+    difficulty: Difficulty,
+    algorithm: AIAlgorithm,
+    rules: GameRules,
+    moves: Move[]
+  ): { move: Move | null; metrics: AIMetrics };
+}
+
+// A rule variant: switched on from the settings and layered on the rules
+export interface RuleVariant {
+  id: RuleVariantId;
+  name: string;
+  description: string;
+  isEnabled(settings: GameSettings): boolean;
+  // Whether it combines with the rest of the settings
+  isAvailable(settings: GameSettings): boolean;
+  applyRules(rules: GameRules, settings: GameSettings): GameRules;
 }
 
 // Complete game context
@@ -91,8 +363,19 @@ export interface MinimaxResult {
 
 // Constants
 export const EMPTY_CELL: Cell = null;
+export const BLOCKED_CELL: Blocked = "#";
 export const PLAYER_X: Player = "X";
 export const PLAYER_O: Player = "O";
+export const PLAYER_TRIANGLE: Player = "Δ";
+export const PLAYER_SQUARE: Player = "□";
+
+// Every symbol in turn order
+export const PLAYER_SYMBOLS: Player[] = [
+  PLAYER_X,
+  PLAYER_O,
+  PLAYER_TRIANGLE,
+  PLAYER_SQUARE,
+];
 
 // Default values
 export const DEFAULT_GAME_STATE: GameState = {
@@ -101,32 +384,70 @@ export const DEFAULT_GAME_STATE: GameState = {
     [null, null, null],
     [null, null, null],
   ],
-  boardSize: 3,
+  boardWidth: 3,
+  boardHeight: 3,
+  rules: { winLength: 3, misere: false, gravity: false, wild: false },
+  gameMode: "classic",
+  ultimateBoard: null,
+  cube: null,
+  quantum: null,
+  cubeWinningLine: null,
   currentPlayer: PLAYER_X,
   gameStatus: "playing",
   winner: null,
   winningLine: null,
   isPlayerTurn: true,
   difficulty: "easy",
+  opening: null,
+  swapped: false,
+  lineStats: null,
 };
 
 export const DEFAULT_SCORE: GameScore = {
-  playerWins: 0,
-  aiWins: 0,
+  wins: { X: 0, O: 0, Δ: 0, "□": 0 },
+  humanWins: 0,
   draws: 0,
   currentStreak: 0,
   streakType: null,
+  byDifficulty: {
+    easy: { wins: 0, losses: 0, draws: 0 },
+    medium: { wins: 0, losses: 0, draws: 0 },
+    strong: { wins: 0, losses: 0, draws: 0 },
+    hard: { wins: 0, losses: 0, draws: 0 },
+  },
 };
 
 export const DEFAULT_AI_METRICS: AIMetrics = {
   positionsEvaluated: 0,
   thinkingTime: 0,
   lastMoveScore: 0,
+  depthReached: 0,
+  ttHitRate: 0,
+  simulations: 0,
+  moveStats: [],
+  forcedWin: false,
 };
 
 export const DEFAULT_GAME_SETTINGS: GameSettings = {
   difficulty: "easy",
+  aiAlgorithm: "minimax",
   playerSymbol: PLAYER_X,
   aiSymbol: PLAYER_O,
-  boardSize: 3,
+  playerCount: 2,
+  playerControls: { X: "human", O: "ai", Δ: "ai", "□": "ai" },
+  boardWidth: 3,
+  boardHeight: 3,
+  winLength: 3, // A full line of the board (see getDefaultWinLength)
+  misere: false,
+  gravity: false,
+  wild: false,
+  sliding: false,
+  numerical: false,
+  toroidal: false,
+  boardShape: "full",
+  obstacleSeed: 1,
+  swapRule: "none",
+  renju: false,
+  gameMode: "classic",
+  cubeSize: 4,
 };
@@ -0,0 +1,138 @@
+import {
+  AIDecision,
+  AIProgress,
+  AIRequest,
+  AIWorkerRequest,
+  AIWorkerResponse,
+} from "@/types/game";
+import { aiEngine } from "@/utils/aiEngine";
+import { getAIDecision } from "@/utils/aiDecision";
+
+/**
+ * Client of the AI worker
+ *
+ * Requests go to a dedicated worker one at a time, so searches no longer
+ * hold up the page. A worker busy with a search can't take messages, so
+ * cancelling one terminates the worker; the next request starts a fresh
+ * one. Where there are no workers (server rendering), requests are decided
+ * in place.
+ */
+
+// A request waiting for its decision
+interface PendingRequest {
+  id: number;
+  resolve: (decision: AIDecision | null) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: AIProgress) => void;
+}
+
+export class AIWorkerClient {
+  private worker: Worker | null = null;
+  private nextId: number = 1;
+  private pending: PendingRequest | null = null;
+
+  /**
+   * Asks the AI for its decision, cancelling any request still running
+   * Resolves to null when the request is cancelled in turn.
+   * @param onProgress - Told about the best move found so far while the
+   * search runs
+   */
+  public requestDecision(
+    request: AIRequest,
+    onProgress?: (progress: AIProgress) => void
+  ): Promise<AIDecision | null> {
+    this.cancel();
+
+    if (typeof Worker === "undefined") {
+      return Promise.resolve(getAIDecision(request));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending = { id, resolve, reject, onProgress };
+      this.send({ type: "decide", id, request });
+    });
+  }
+
+  /**
+   * Cancels the request that is running, if any (its promise resolves to
+   * null)
+   */
+  public cancel(): void {
+    const { pending } = this;
+    if (!pending) return;
+
+    this.pending = null;
+    this.worker?.terminate();
+    this.worker = null;
+    pending.resolve(null);
+  }
+
+  /**
+   * Cancels any running request and makes the AI forget the positions it
+   * has searched (for a new game)
+   */
+  public reset(): void {
+    this.cancel();
+    if (this.worker) {
+      this.send({ type: "reset" });
+    } else if (typeof Worker === "undefined") {
+      aiEngine.reset();
+    }
+  }
+
+  /**
+   * Sends a message to the worker, starting one if there is none
+   */
+  private send(message: AIWorkerRequest): void {
+    if (!this.worker) {
+      this.worker = new Worker(new URL("./aiWorker.ts", import.meta.url));
+      this.worker.addEventListener(
+        "message",
+        (event: MessageEvent<AIWorkerResponse>) =>
+          this.handleResponse(event.data)
+      );
+      // A worker that failed to load or crashed is started over next time
+      this.worker.addEventListener("error", (event) => {
+        this.worker?.terminate();
+        this.worker = null;
+        this.fail(new Error(event.message));
+      });
+    }
+    this.worker.postMessage(message);
+  }
+
+  /**
+   * Passes a worker message on to the request it belongs to (messages of
+   * cancelled requests are dropped)
+   */
+  private handleResponse(response: AIWorkerResponse): void {
+    const { pending } = this;
+    if (!pending || response.id !== pending.id) return;
+
+    switch (response.type) {
+      case "progress":
+        pending.onProgress?.(response.progress);
+        break;
+      case "decision":
+        this.pending = null;
+        pending.resolve(response.decision);
+        break;
+      case "error":
+        this.fail(new Error(response.message));
+        break;
+    }
+  }
+
+  /**
+   * Fails the running request
+   */
+  private fail(error: Error): void {
+    const { pending } = this;
+    this.pending = null;
+    pending?.reject(error);
+  }
+}
+
+// Export a singleton instance
+export const aiClient = new AIWorkerClient();
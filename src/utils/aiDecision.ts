@@ -0,0 +1,49 @@
+import { AIDecision, AIRequest } from "@/types/game";
+import { aiEngine } from "@/utils/aiEngine";
+import { getGameVariant } from "@/utils/variants";
+
+/**
+ * Decides what the AI does on its turn: an opening choice while the game
+ * waits for one, a mark of the opening while it is being laid down, and
+ * otherwise a move of the game's variant
+ * Runs wherever the engine does (the AI worker, or the page without one).
+ */
+export function getAIDecision({
+  gameState,
+  player,
+  difficulty,
+  algorithm,
+  moves,
+}: AIRequest): AIDecision {
+  const { opening } = gameState;
+
+  // Opening decisions are taken without placing a mark
+  if (opening && gameState.gameStatus === "deciding") {
+    const { choice, metrics } = aiEngine.chooseOpening(
+      gameState.board,
+      opening.chooser,
+      opening.choices,
+      difficulty,
+      gameState.rules
+    );
+    return { move: null, choice, metrics };
+  }
+
+  const { move, metrics } = opening
+    ? aiEngine.getOpeningMove(
+        gameState.board,
+        player,
+        opening.marks.length - 1,
+        difficulty,
+        gameState.rules
+      )
+    : getGameVariant(gameState.gameMode).getAIMove(
+        gameState,
+        player,
+        difficulty,
+        algorithm,
+        gameState.rules,
+        moves
+      );
+  return { move, choice: null, metrics };
+}
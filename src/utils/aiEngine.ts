@@ -3,23 +3,381 @@ import {
   Player,
   Move,
   Difficulty,
+  AIAlgorithm,
+  AIProgress,
   MinimaxResult,
+  MoveStatistic,
+  GameRules,
+  AIMetrics,
+  UltimateBoard,
+  Cube,
+  QuantumState,
   BoardSize,
+  OpeningChoice,
+  PLAYER_X,
+  PLAYER_O,
+  WinningLine,
 } from "@/types/game";
 import {
   getAvailableMoves,
   makeMove,
   evaluateBoard,
-  isGameOver,
   getOpponent,
+  getNextPlayer,
+  isPlayerMark,
   getRandomMove,
   getCenterPosition,
+  isBoardFull,
   getCornerPositions,
   isValidMove,
+  generateWinningCombinations,
+  getBoardDimensions,
+  getWinningLines,
+  getDefaultWinLength,
+  countSymbolsInLine,
+  checkWinnerAtCell,
+  cloneBoard,
+  getExpiringMark,
+  getSlidingPositionKey,
+  makeSlidingMove,
+  getAvailableNumbers,
+  getCellLines,
+  isNumberLineComplete,
+  isOverline,
+  isForbiddenMove,
+  RENJU_RESTRICTED_PLAYER,
+  WINNING_COMBINATIONS,
 } from "@/utils/gameLogic";
+import {
+  BitBoard,
+  completesLine,
+  createBitBoard,
+  getMarkAt,
+  findCompleteLine,
+  findLineThrough,
+  getCanonicalSymmetry,
+  getPlayableCells,
+  getStabilizers,
+  isBitBoardFull,
+  placeMark,
+  removeMark,
+  toBoard,
+  toCellIndex,
+} from "@/utils/bitboard";
+import { getBoardSymmetries, transformMove } from "@/utils/symmetry";
+import {
+  CLASSIC_WIN_SCORE,
+  DEFAULT_EVALUATION_WEIGHTS,
+  EvaluationWeights,
+  evaluatePosition,
+  MAX_EVALUATION,
+  WINNING_EVALUATION,
+} from "@/utils/evaluation";
+import {
+  canSearchThreats,
+  findThreatDefence,
+  findThreatWin,
+} from "@/utils/threatSpace";
+import {
+  checkUltimateWinner,
+  getSubBoardIndex,
+  getUltimateAvailableMoves,
+  isSubBoardOpen,
+  makeUltimateMove,
+  ULTIMATE_GRID_SIZE,
+} from "@/utils/ultimateLogic";
+import {
+  checkCubeWinner,
+  countSymbolsInCubeLine,
+  generateCubeWinningLines,
+  getCubeAvailableMoves,
+  getCubeSize,
+  isCubeFull,
+  makeCubeMove,
+} from "@/utils/cubeLogic";
+import {
+  checkQuantumWinner,
+  getQuantumAvailableMoves,
+  makeQuantumMove,
+} from "@/utils/quantumLogic";
+
+// Score of a won Ultimate game, kept well above any heuristic evaluation
+const ULTIMATE_WIN_SCORE = 1000;
+
+// Score of a won 3D game, kept well above any heuristic evaluation
+const CUBE_WIN_SCORE = 10000;
+
+// Cells searched per node in 3D mode (best candidates by line potential)
+const CUBE_BRANCH_LIMIT = 12;
+
+// Score of a won quantum game, kept well above any heuristic evaluation
+const QUANTUM_WIN_SCORE = 1000;
+
+// Score of a won sliding game, kept well above any heuristic evaluation
+const SLIDING_WIN_SCORE = 1000;
+
+// Score of a won three- or four-player game, above any heuristic evaluation
+const MULTIPLAYER_WIN_SCORE = 100000;
+
+// Cells searched per node in three- and four-player games
+const MULTIPLAYER_BRANCH_LIMIT = 10;
+
+// Largest board searched by minimax (cells); larger ones use heuristics
+const MAX_MINIMAX_CELLS = 25;
+
+// Largest numerical board solved outright (cells); larger ones use
+// heuristics
+const MAX_NUMERICAL_SOLVE_CELLS = 9;
+
+// Milliseconds between progress reports of a Monte Carlo search
+const PROGRESS_INTERVAL = 100;
+
+// Positions the threat-space search may visit, for the AI's own forced
+// win and again for the opponent's
+const THREAT_SEARCH_NODES = 20000;
+
+// Positions the transposition table holds before it starts over
+const TRANSPOSITION_TABLE_SIZE = 200000;
+
+// Hash key of the minimizing side to move (the same marks with the other
+// side to move are a different position)
+const MINIMIZING_SIDE_KEY = 0x9e3779b9;
+
+// A searched position in the transposition table
+interface TranspositionEntry {
+  check: number; // High half of the hash (tells apart positions in a slot)
+  depth: number; // Plies searched below the position
+  score: number; // Counted from the position, not the root (toTableScore)
+  bound: "exact" | "lower" | "upper"; // Exact score, or a bound on it
+  move: Move | null; // Best move found
+}
+
+// Exploration weight of the UCT formula (√2 suits results between 0 and 1)
+const UCT_EXPLORATION = Math.SQRT2;
+
+// Moves a Monte Carlo playout makes before calling the game a draw
+// (sliding games can go on forever)
+const PLAYOUT_MOVE_LIMIT = 200;
+
+// Root moves reported in the metrics of a Monte Carlo search
+const REPORTED_MOVE_STATS = 3;
+
+// On boards with more cells than this, Monte Carlo search only plays the
+// cells near a mark (within MONTE_CARLO_FOCUS_RADIUS, Chebyshev distance)
+const MONTE_CARLO_FOCUS_CELLS = 25;
+const MONTE_CARLO_FOCUS_RADIUS = 2;
+
+// Cells a Monte Carlo search tree grows per node in k-in-a-row games on
+// those boards (best candidates by line potential)
+const MONTE_CARLO_BRANCH_LIMIT = 12;
+
+// A game as Monte Carlo search plays it (positions are never modified)
+interface MonteCarloGame<S> {
+  getMoves(state: S, player: Player): Move[];
+  play(state: S, move: Move, player: Player): MonteCarloStep<S>;
+  // Plays the game out from a position and returns the winner (random
+  // moves through getMoves and play when left out)
+  playOut?(state: S, player: Player): Player | null;
+}
+
+// A position reached in a Monte Carlo search and how the game stands
+interface MonteCarloStep<S> {
+  state: S;
+  winner: Player | null;
+  isOver: boolean; // Won, drawn or out of moves
+  nextPlayer: Player;
+}
+
+// A node of the Monte Carlo search tree
+interface MonteCarloNode<S> {
+  step: MonteCarloStep<S>;
+  move: Move | null; // Move that led here (null at the root)
+  mover: Player | null; // Player who made it
+  parent: MonteCarloNode<S> | null;
+  children: MonteCarloNode<S>[];
+  untriedMoves: Move[]; // Moves without a child node yet
+  visits: number;
+  reward: number; // Playout results for the mover (1 a win, 0.5 a draw)
+}
+
+// Opening evaluations this close to zero count as even (pie rule, Swap2)
+const OPENING_BALANCE_MARGIN = 2;
+
+// Manhattan distance from the center of the cells opening marks go on
+const OPENING_RADIUS = 2;
+
+// How well an AI level plays
+interface SkillLevel {
+  depth: number; // Plies each move is searched to (small boards)
+  temperature: number; // Softmax spread over move scores (0 picks the best)
+  strength: number; // Share of moves played at full strength elsewhere
+}
+
+// Skill of each level, calibrated so each level beats the one below it
+// in most decided games (see README)
+const SKILL_LEVELS: Record<Difficulty, SkillLevel> = {
+  easy: { depth: 0, temperature: 0, strength: 0 },
+  medium: { depth: 2, temperature: 300, strength: 0.5 },
+  strong: { depth: 4, temperature: 200, strength: 0.8 },
+  hard: { depth: Infinity, temperature: 0, strength: 1 },
+};
+
+/**
+ * Picks one of the scored moves at random, each as likely as e^(score /
+ * temperature), so near-best moves are often played and bad ones seldom
+ */
+function pickBySoftmax<T extends { score: number }>(
+  scored: T[],
+  temperature: number
+): T {
+  const best = Math.max(...scored.map(({ score }) => score));
+  if (temperature <= 0) {
+    return scored.find(({ score }) => score === best)!;
+  }
+
+  const weights = scored.map(({ score }) =>
+    Math.exp((score - best) / temperature)
+  );
+  let pick = Math.random() * weights.reduce((sum, w) => sum + w, 0);
+  for (let i = 0; i < scored.length; i++) {
+    pick -= weights[i];
+    if (pick < 0) return scored[i];
+  }
+  return scored[scored.length - 1];
+}
+
+/**
+ * Gets the transposition table slot of a position: the low half of its
+ * hash under its canonical symmetry, told apart by the side to move
+ */
+function getTableSlot(
+  bitboard: BitBoard,
+  symmetry: number,
+  isMaximizing: boolean
+): number {
+  const low = bitboard.hashes[symmetry * 2];
+  return isMaximizing ? low : (low ^ MINIMIZING_SIDE_KEY) >>> 0;
+}
+
+/**
+ * Checks if a search score is a won or lost game rather than a positional
+ * evaluation
+ */
+function isDecisiveScore(score: number): boolean {
+  return Math.abs(score) > MAX_EVALUATION;
+}
+
+/**
+ * Converts a score found `depth` plies below the root to one counted from
+ * the position itself, so a stored position is worth the same wherever a
+ * later search meets it (a win N plies away scores CLASSIC_WIN_SCORE - N;
+ * evaluations don't depend on the depth)
+ */
+function toTableScore(score: number, depth: number): number {
+  if (!isDecisiveScore(score)) return score;
+  return score > 0 ? score + depth : score - depth;
+}
+
+/**
+ * Converts a stored score back to one counted from the root
+ */
+function fromTableScore(score: number, depth: number): number {
+  if (!isDecisiveScore(score)) return score;
+  return score > 0 ? score - depth : score + depth;
+}
+
+// A numerical game as the exact search plays it: numbers by cell index
+// (0 empty, -1 blocked), changed in place and restored
+interface NumericalSearch {
+  cells: number[];
+  width: number;
+  height: number;
+  lines: number[][]; // Cell indexes of each winning line
+  cellLines: number[][]; // Lines through each cell, as indexes into lines
+  keyWeights: number[][]; // Key weight of each cell under each symmetry
+  used: number; // Numbers placed, as a bit mask (bit n for number n)
+  target: number;
+}
+
+// What a numerical search found for a position: its value for the player
+// to move (1 a win, 0 a draw, -1 a loss), or a bound on it
+interface NumericalEntry {
+  value: number;
+  bound: "exact" | "lower" | "upper";
+}
 
 /**
- * AI Engine for TicTacToe with Easy and Hard difficulty modes
+ * Gets the key of a numerical position under its canonical symmetry (the
+ * smallest of its images read as a number in base cells + 1)
+ */
+function getNumericalKey(search: NumericalSearch): number {
+  const { cells, keyWeights } = search;
+  let best = Infinity;
+  for (const weights of keyWeights) {
+    let key = 0;
+    for (let cell = 0; cell < cells.length; cell++) {
+      if (cells[cell] > 0) key += cells[cell] * weights[cell];
+    }
+    if (key < best) best = key;
+  }
+  return best;
+}
+
+/**
+ * Gets the numbers a player has left in a numerical search
+ */
+function getNumericalNumbers(search: NumericalSearch, player: Player): number[] {
+  const numbers: number[] = [];
+  const first = player === PLAYER_X ? 1 : 2;
+  for (let value = first; value <= search.cells.length; value += 2) {
+    if ((search.used & (1 << value)) === 0) {
+      numbers.push(value);
+    }
+  }
+  return numbers;
+}
+
+function placeNumber(search: NumericalSearch, cell: number, value: number) {
+  search.cells[cell] = value;
+  search.used |= 1 << value;
+}
+
+function removeNumber(search: NumericalSearch, cell: number, value: number) {
+  search.cells[cell] = 0;
+  search.used &= ~(1 << value);
+}
+
+/**
+ * Gets the numbers that would bring a line through an empty cell to the
+ * target, from the lines it is the last empty cell of
+ */
+function getNumericalNeeds(search: NumericalSearch, cell: number): number[] {
+  const needs: number[] = [];
+  for (const lineIndex of search.cellLines[cell]) {
+    const line = search.lines[lineIndex];
+
+    let sum = 0;
+    let isLastEmpty = true;
+    for (const index of line) {
+      if (index === cell) continue;
+      if (search.cells[index] <= 0) {
+        isLastEmpty = false;
+        break;
+      }
+      sum += search.cells[index];
+    }
+
+    const need = search.target - sum;
+    if (isLastEmpty && need >= 1 && need <= search.cells.length) {
+      needs.push(need);
+    }
+  }
+  return needs;
+}
+
+/**
+ * AI Engine for TicTacToe with graded difficulty levels, from random
+ * moves (easy) to perfect play (hard)
  */
 
 export class TicTacToeAI {
@@ -27,39 +385,120 @@ export class TicTacToeAI {
   private startTime: number = 0;
   private maxThinkingTime: number = 500; // 500ms max - much faster
   private timeoutReached: boolean = false;
+  private rules: GameRules = { winLength: 3 };
+  private moveHistory: Move[] = []; // Moves so far (sliding games)
+  private lines: WinningLine[] = []; // Winning lines of the current board
+  private depthReached: number = 0; // Deepest completed search iteration
+  private transpositionTable = new Map<number, TranspositionEntry>();
+  private transpositionKey: string = ""; // Game setup the table is for
+  private tableProbes: number = 0;
+  private tableHits: number = 0;
+  private simulations: number = 0; // Monte Carlo playouts this decision
+  private moveStats: MoveStatistic[] = []; // Root moves of the last playouts
+  private forcedWin: Move[] = []; // AI's winning line found by threat search
+  // Searched numerical positions by canonical position, kept for the game
+  // setup they are for
+  private numericalTable = new Map<number, NumericalEntry>();
+  private numericalTableKey: string = "";
+  private progressListener: ((progress: AIProgress) => void) | null = null;
+  private lastProgressTime: number = 0;
+
+  /**
+   * @param evaluationWeights - Weights of the positional evaluation that
+   * scores positions where a search is cut off
+   */
+  constructor(
+    private evaluationWeights: EvaluationWeights = DEFAULT_EVALUATION_WEIGHTS
+  ) {}
+
+  /**
+   * Changes the weights of the positional evaluation (positions searched
+   * under the old weights are forgotten)
+   */
+  public setEvaluationWeights(weights: EvaluationWeights): void {
+    this.evaluationWeights = weights;
+  }
 
   /**
    * Gets the best move for the AI based on difficulty level
+   * @param rules - Rule set of the current game (defaults to a full line)
+   * @param moves - Moves played so far, oldest first (needed to know which
+   * marks expire in sliding games)
+   * @param algorithm - Search the levels above easy run (Monte Carlo on any
+   * board)
    */
   public getBestMove(
     board: Board,
     aiPlayer: Player,
-    difficulty: Difficulty
-  ): {
-    move: Move | null;
-    metrics: {
-      positionsEvaluated: number;
-      thinkingTime: number;
-      lastMoveScore: number;
-    };
-  } {
-    this.positionsEvaluated = 0;
-    this.startTime = performance.now();
-    this.timeoutReached = false;
+    difficulty: Difficulty,
+    rules?: GameRules,
+    moves: Move[] = [],
+    algorithm: AIAlgorithm = "minimax"
+  ): { move: Move | null; metrics: AIMetrics } {
+    this.startSearch();
+
+    const { width, height } = getBoardDimensions(board);
+    this.rules = rules ?? { winLength: getDefaultWinLength(width, height) };
+    this.moveHistory = moves;
 
     let move: Move | null = null;
     let score = 0;
 
-    const boardSize = board.length;
+    if (difficulty === "medium" || difficulty === "strong") {
+      // Moves are scored one by one on the boards hard mode searches by
+      // minimax
+      const canScoreMoves =
+        algorithm === "minimax" &&
+        width * height <= (this.rules.wild ? 9 : MAX_MINIMAX_CELLS) &&
+        (this.rules.playerCount ?? 2) === 2 &&
+        !this.rules.maxMarks &&
+        !this.rules.numberTarget;
+      if (canScoreMoves) {
+        const result = this.getSkilledMove(
+          board,
+          aiPlayer,
+          SKILL_LEVELS[difficulty]
+        );
+        move = result.move;
+        score = result.score;
+      }
+    }
 
-    if (difficulty === "easy") {
+    if (move) {
+      // Already chosen by its level's skill
+    } else if (this.playsEasyMove(difficulty)) {
       move = this.getEasyMove(board);
       score = 0; // Random moves don't have scores
+    } else if (algorithm === "mcts") {
+      const result = this.monteCarloSearch(
+        this.getClassicMonteCarloGame(board),
+        { board, moves },
+        aiPlayer
+      );
+      move = result.move;
+      score = result.score;
     } else {
       // For larger boards, use optimized strategy with early return
-      if (boardSize > 3) {
-        move = this.getOptimizedMove(board, aiPlayer);
+      if ((this.rules.playerCount ?? 2) > 2) {
+        const result = this.getMultiPlayerMove(board, aiPlayer);
+        move = result.move;
+        score = result.score;
+      } else if (this.rules.maxMarks) {
+        const result = this.getSlidingMove(board, aiPlayer);
+        move = result.move;
+        score = result.score;
+      } else if (this.rules.numberTarget) {
+        move = this.getNumericalMove(board, aiPlayer);
+        score = 0;
+      } else if (this.rules.wild && width * height > 9) {
+        move = this.getWildMove(board, aiPlayer);
         score = 0;
+      } else if (width * height > MAX_MINIMAX_CELLS) {
+        move = this.getOptimizedMove(board, aiPlayer);
+        score =
+          this.forcedWin.length > 0
+            ? CLASSIC_WIN_SCORE
+            : this.evaluateMove(board, move, aiPlayer);
       } else {
         const result = this.getHardMove(board, aiPlayer);
         move = result.move;
@@ -67,25 +506,228 @@ export class TicTacToeAI {
       }
     }
 
+    // Moves always say which mark to place; easy wild and numerical games
+    // pick one at random
+    if (move && !move.symbol) {
+      const marks = this.withMarks(board, [move], aiPlayer);
+      move = marks[Math.floor(Math.random() * marks.length)];
+    }
+
+    const thinkingTime = performance.now() - this.startTime;
+    this.logDecision(difficulty, move, score, thinkingTime);
+
+    return {
+      move,
+      metrics: this.getMetrics(score, thinkingTime),
+    };
+  }
+
+  /**
+   * Gets the best move in Ultimate Tic-Tac-Toe (global 9x9 coordinates)
+   */
+  public getBestUltimateMove(
+    ultimate: UltimateBoard,
+    aiPlayer: Player,
+    difficulty: Difficulty,
+    algorithm: AIAlgorithm = "minimax"
+  ): { move: Move | null; metrics: AIMetrics } {
+    this.startSearch();
+
+    let move: Move | null = null;
+    let score = 0;
+
+    if (this.playsEasyMove(difficulty)) {
+      move = this.getEasyUltimateMove(ultimate, aiPlayer);
+    } else {
+      const result =
+        algorithm === "mcts"
+          ? this.monteCarloSearch(
+              this.getUltimateMonteCarloGame(),
+              ultimate,
+              aiPlayer
+            )
+          : this.getHardUltimateMove(ultimate, aiPlayer);
+      move = result.move;
+      score = result.score;
+    }
+
+    const thinkingTime = performance.now() - this.startTime;
+    this.logDecision(difficulty, move, score, thinkingTime);
+
+    return {
+      move,
+      metrics: this.getMetrics(score, thinkingTime),
+    };
+  }
+
+  /**
+   * Gets the best move in 3D tic-tac-toe (moves carry their cube layer)
+   */
+  public getBestCubeMove(
+    cube: Cube,
+    aiPlayer: Player,
+    difficulty: Difficulty,
+    algorithm: AIAlgorithm = "minimax"
+  ): { move: Move | null; metrics: AIMetrics } {
+    this.startSearch();
+
+    let move: Move | null = null;
+    let score = 0;
+
+    if (this.playsEasyMove(difficulty)) {
+      move = this.getEasyCubeMove(cube, aiPlayer);
+    } else {
+      const result =
+        algorithm === "mcts"
+          ? this.monteCarloSearch(this.getCubeMonteCarloGame(), cube, aiPlayer)
+          : this.getHardCubeMove(cube, aiPlayer);
+      move = result.move;
+      score = result.score;
+    }
+
     const thinkingTime = performance.now() - this.startTime;
+    this.logDecision(difficulty, move, score, thinkingTime);
+
+    return {
+      move,
+      metrics: this.getMetrics(score, thinkingTime),
+    };
+  }
+
+  /**
+   * Resets the counters and starts the clock for a new decision
+   */
+  private startSearch(): void {
+    this.positionsEvaluated = 0;
+    this.startTime = performance.now();
+    this.timeoutReached = false;
+    this.depthReached = 0;
+    this.tableProbes = 0;
+    this.tableHits = 0;
+    this.simulations = 0;
+    this.moveStats = [];
+    this.forcedWin = [];
+    this.lastProgressTime = this.startTime;
+  }
+
+  /**
+   * Sets the function told about the best move found so far while a
+   * search runs (null to stop reporting)
+   */
+  public setProgressListener(
+    listener: ((progress: AIProgress) => void) | null
+  ): void {
+    this.progressListener = listener;
+  }
+
+  /**
+   * Reports the best move found so far to the progress listener, if any
+   */
+  private reportProgress(bestMove: Move | null): void {
+    this.lastProgressTime = performance.now();
+    this.progressListener?.({
+      bestMove,
+      positionsEvaluated: this.positionsEvaluated,
+    });
+  }
+
+  /**
+   * Gets the metrics of the decision just made
+   */
+  private getMetrics(score: number, thinkingTime: number): AIMetrics {
+    return {
+      positionsEvaluated: this.positionsEvaluated,
+      thinkingTime: Math.round(thinkingTime),
+      lastMoveScore: score,
+      depthReached: this.depthReached,
+      ttHitRate: this.tableProbes > 0 ? this.tableHits / this.tableProbes : 0,
+      simulations: this.simulations,
+      moveStats: this.moveStats,
+      forcedWin: this.forcedWin.length > 0,
+    };
+  }
 
-    // Log AI decision for debugging
+  /**
+   * Logs an AI decision for debugging
+   */
+  private logDecision(
+    difficulty: Difficulty,
+    move: Move | null,
+    score: number,
+    thinkingTime: number
+  ): void {
     console.log(`🤖 AI (${difficulty.toUpperCase()}) Decision:`);
     console.log(
-      `   Move: ${move ? `[${move.row}, ${move.col}]` : "No move available"}`
+      `   Move: ${
+        move
+          ? move.layer !== undefined
+            ? `[${move.layer}, ${move.row}, ${move.col}]`
+            : `[${move.row}, ${move.col}]`
+          : "No move available"
+      }`
     );
     console.log(`   Score: ${score}`);
     console.log(`   Positions evaluated: ${this.positionsEvaluated}`);
+    if (this.simulations > 0) {
+      console.log(`   Playouts: ${this.simulations}`);
+    }
+    if (this.depthReached > 0) {
+      console.log(`   Depth reached: ${this.depthReached}`);
+    }
+    if (this.forcedWin.length > 0) {
+      console.log(
+        `   Forced win: ${this.forcedWin
+          .map(({ row, col }) => `[${row}, ${col}]`)
+          .join(" ")}`
+      );
+    }
     console.log(`   Thinking time: ${thinkingTime.toFixed(2)}ms`);
+  }
 
-    return {
-      move,
-      metrics: {
-        positionsEvaluated: this.positionsEvaluated,
-        thinkingTime: Math.round(thinkingTime),
-        lastMoveScore: score,
-      },
-    };
+  /**
+   * Whether a level plays this move as easy mode would (easy always, hard
+   * never, the levels between some of the time)
+   */
+  private playsEasyMove(difficulty: Difficulty): boolean {
+    return Math.random() >= SKILL_LEVELS[difficulty].strength;
+  }
+
+  /**
+   * Medium and strong modes: every move is scored by a search cut off at
+   * the level's depth, and one is picked by softmax over the scores
+   */
+  private getSkilledMove(
+    board: Board,
+    aiPlayer: Player,
+    skill: SkillLevel
+  ): { move: Move | null; score: number } {
+    const bitboard = createBitBoard(board, this.rules);
+    this.prepareTranspositionTable(bitboard, aiPlayer);
+
+    const scored: { move: Move; score: number }[] = [];
+    for (const move of this.getSearchMoves(bitboard, aiPlayer)) {
+      const cell = toCellIndex(bitboard.width, move.row, move.col);
+      placeMark(bitboard, cell, move.symbol!);
+      const { score } = this.minimax(
+        bitboard,
+        1,
+        false,
+        aiPlayer,
+        -Infinity,
+        Infinity,
+        skill.depth,
+        cell
+      );
+      removeMark(bitboard, cell, move.symbol!);
+
+      // Scores of a search cut short are unreliable
+      if (this.timeoutReached) break;
+      scored.push({ move, score });
+    }
+
+    if (scored.length === 0) return { move: null, score: 0 };
+    this.depthReached = skill.depth;
+    return pickBySoftmax(scored, skill.temperature);
   }
 
   /**
@@ -93,9 +735,9 @@ export class TicTacToeAI {
    */
   private getEasyMove(board: Board): Move | null {
     this.positionsEvaluated = 1; // Just checking available moves
-    const boardSize = board.length as BoardSize;
+    const { width, height } = getBoardDimensions(board);
 
-    const availableMoves = getAvailableMoves(board);
+    const availableMoves = getAvailableMoves(board, this.rules);
 
     if (availableMoves.length === 0) {
       return null;
@@ -103,18 +745,23 @@ export class TicTacToeAI {
 
     // 70% chance of random move, 30% chance of slightly better move
     if (Math.random() < 0.7) {
-      return getRandomMove(board);
+      return getRandomMove(board, this.rules);
+    }
+
+    // A torus has no center or corners - every cell is alike
+    if (this.rules.toroidal) {
+      return getRandomMove(board, this.rules);
     }
 
     // Slightly better logic: prefer center, then corners, then edges
-    const centerPos = getCenterPosition(boardSize);
-    if (isValidMove(board, centerPos.row, centerPos.col)) {
+    const centerPos = getCenterPosition(width, height);
+    if (isValidMove(board, centerPos.row, centerPos.col, this.rules)) {
       return centerPos;
     }
 
-    const cornerPositions = getCornerPositions(boardSize);
+    const cornerPositions = getCornerPositions(width, height);
     const availableCorners = cornerPositions.filter((pos) =>
-      isValidMove(board, pos.row, pos.col)
+      isValidMove(board, pos.row, pos.col, this.rules)
     );
 
     if (availableCorners.length > 0) {
@@ -123,106 +770,166 @@ export class TicTacToeAI {
     }
 
     // Fallback to random move
-    return getRandomMove(board);
+    return getRandomMove(board, this.rules);
   }
 
   /**
-   * Hard mode: Full minimax implementation with depth limiting for performance
+   * Hard mode: iterative deepening minimax, one ply deeper each round for
+   * as long as the time limit allows, keeping the move of the last round
+   * that finished
+   * Each round reuses the positions stored in the transposition table by
+   * the rounds before it (and the AI's earlier moves this game), which
+   * also puts the best move found so far first
    */
   private getHardMove(
     board: Board,
     aiPlayer: Player
   ): { move: Move | null; score: number } {
-    const boardSize = board.length;
-    const availableMoves = getAvailableMoves(board);
-
-    // Much more aggressive depth limiting based on board size
-    let maxDepth: number;
-    if (boardSize === 3) {
-      maxDepth = 9; // Full depth for 3x3
-    } else if (boardSize === 4) {
-      maxDepth = availableMoves.length > 8 ? 2 : 3; // Very limited for 4x4
-    } else if (boardSize === 5) {
-      maxDepth = 2; // Minimal depth for 5x5
-    } else {
-      // For boards larger than 5x5, use optimized heuristic instead
-      return { move: this.getOptimizedMove(board, aiPlayer), score: 0 };
-    }
+    const { width, height } = getBoardDimensions(board);
+    const cellCount = width * height;
 
-    const result = this.minimax(
-      board,
-      0,
-      true,
-      aiPlayer,
-      -Infinity,
-      Infinity,
-      maxDepth
-    );
-    return {
-      move: result.move,
-      score: result.score,
+    const bitboard = createBitBoard(board, this.rules);
+    this.prepareTranspositionTable(bitboard, aiPlayer);
+    const [firstMove = null] = this.getSearchMoves(bitboard, aiPlayer);
+    let best: { move: Move | null; score: number } = {
+      move: firstMove,
+      score: 0,
     };
+
+    // The game is over by the time every empty cell is filled
+    const emptyCells = cellCount - bitboard.markCount - bitboard.blockedCount;
+    for (let depth = 1; depth <= emptyCells; depth++) {
+      const result = this.minimax(
+        bitboard,
+        0,
+        true,
+        aiPlayer,
+        -Infinity,
+        Infinity,
+        depth
+      );
+
+      // A search cut short by the time limit is incomplete - discard it
+      if (this.timeoutReached) break;
+
+      best = { move: result.move, score: result.score };
+      this.depthReached = depth;
+      this.reportProgress(best.move);
+
+      // Forced result found - searching deeper changes nothing
+      if (isDecisiveScore(result.score)) break;
+    }
+
+    return best;
   }
 
   /**
    * Optimized move selection for larger boards using heuristics
    */
   private getOptimizedMove(board: Board, aiPlayer: Player): Move | null {
-    const boardSize = board.length as BoardSize;
-    const availableMoves = getAvailableMoves(board);
+    const { width, height } = getBoardDimensions(board);
+    const availableMoves = getAvailableMoves(board, this.rules);
     const opponent = getOpponent(aiPlayer);
 
     if (availableMoves.length === 0) return null;
 
     // Early game strategy for larger boards
-    if (availableMoves.length === boardSize * boardSize) {
+    if (availableMoves.length === width * height && !this.rules.toroidal) {
       // First move - take center
-      return getCenterPosition(boardSize);
+      return getCenterPosition(width, height);
+    }
+
+    // Misère: lines are to be avoided, not completed
+    if (this.rules.misere) {
+      return this.getMisereMove(board, aiPlayer, availableMoves);
     }
 
+    const bitboard = createBitBoard(board, this.rules);
+    const completes = (move: Move, player: Player) =>
+      completesLine(
+        bitboard,
+        toCellIndex(width, move.row, move.col),
+        player,
+        this.rules
+      );
+
     // 1. Check for immediate winning moves (highest priority)
-    for (const move of availableMoves) {
-      const testBoard = makeMove(board, move.row, move.col, aiPlayer);
-      if (isGameOver(testBoard)) {
-        const score = evaluateBoard(testBoard, aiPlayer);
-        if (score > 0) {
-          // Only if it's a winning move
-          return move;
-        }
-      }
+    const winningMove = availableMoves.find((move) =>
+      completes(move, aiPlayer)
+    );
+    if (winningMove) {
+      return winningMove;
     }
 
     // 2. Check for blocking opponent's winning moves (second priority)
-    for (const move of availableMoves) {
-      const testBoard = makeMove(board, move.row, move.col, opponent);
-      if (isGameOver(testBoard)) {
-        const score = evaluateBoard(testBoard, aiPlayer);
-        if (score < 0) {
-          // Block opponent's winning move
-          return move;
-        }
+    const blockingMove = availableMoves.find((move) =>
+      completes(move, opponent)
+    );
+    if (blockingMove) {
+      return blockingMove;
+    }
+
+    // 3. Forcing sequences of fours and open threes, ours and theirs
+    if (canSearchThreats(this.rules)) {
+      const threatMove = this.findThreatMove(board, aiPlayer);
+      if (threatMove) {
+        return threatMove;
       }
     }
 
-    // 3. Look for moves that create multiple winning opportunities
+    // With gravity, never drop a mark right under an opponent's winning
+    // cell - it would let them complete the line on top of it
+    const candidateMoves = this.rules.gravity
+      ? this.filterGiftingMoves(board, aiPlayer, availableMoves)
+      : availableMoves;
+
+    // 4. Look for moves that create multiple winning opportunities
     const strategicMoves = this.findStrategicMoves(
       board,
       aiPlayer,
-      availableMoves
+      candidateMoves
     );
     if (strategicMoves.length > 0) {
       return strategicMoves[Math.floor(Math.random() * strategicMoves.length)];
     }
 
-    // 4. Strategic positions: center > corners > edges
-    const center = getCenterPosition(boardSize);
-    if (isValidMove(board, center.row, center.col)) {
+    // 5. With gravity, take the cells where the opponent would get two
+    // reachable winning cells at once (an open two on a playable row
+    // growing into an open three) - both could not be blocked afterwards
+    if (this.rules.gravity) {
+      const opponentStrategicMoves = this.findStrategicMoves(
+        board,
+        opponent,
+        candidateMoves
+      );
+      if (opponentStrategicMoves.length > 0) {
+        return opponentStrategicMoves[
+          Math.floor(Math.random() * opponentStrategicMoves.length)
+        ];
+      }
+    }
+
+    // 6. With a win length shorter than the board (or gravity deciding
+    // which cells are reachable), corners are weak: build on the lines
+    // that can still be completed instead. On a torus every cell lies on
+    // the same number of lines, so line potential is all there is to go on
+    if (
+      this.rules.winLength < Math.max(width, height) ||
+      this.rules.gravity ||
+      this.rules.toroidal
+    ) {
+      return this.findLinePotentialMove(board, aiPlayer, candidateMoves);
+    }
+
+    // 7. Strategic positions: center > corners > edges
+    const center = getCenterPosition(width, height);
+    if (isValidMove(board, center.row, center.col, this.rules)) {
       return center;
     }
 
-    const corners = getCornerPositions(boardSize);
+    const corners = getCornerPositions(width, height);
     const availableCorners = corners.filter((pos) =>
-      isValidMove(board, pos.row, pos.col)
+      isValidMove(board, pos.row, pos.col, this.rules)
     );
     if (availableCorners.length > 0) {
       return availableCorners[
@@ -230,43 +937,208 @@ export class TicTacToeAI {
       ];
     }
 
-    // 5. Fallback to random move from available moves
-    return getRandomMove(board);
+    // 8. Fallback to random move from available moves
+    return getRandomMove(board, this.rules);
   }
 
   /**
-   * Find strategic moves that create multiple winning opportunities
+   * Scores the position a move leaves with the positional evaluation (for
+   * the metrics of moves chosen by heuristics)
    */
-  private findStrategicMoves(
+  private evaluateMove(
     board: Board,
-    aiPlayer: Player,
-    availableMoves: Move[]
-  ): Move[] {
-    const strategicMoves: Move[] = [];
+    move: Move | null,
+    aiPlayer: Player
+  ): number {
+    if (!move) return 0;
 
-    for (const move of availableMoves) {
-      const testBoard = makeMove(board, move.row, move.col, aiPlayer);
-      let winningOpportunities = 0;
-
-      // Count how many ways this move could lead to a win
-      const nextMoves = getAvailableMoves(testBoard);
-      for (const nextMove of nextMoves) {
-        const nextTestBoard = makeMove(
-          testBoard,
-          nextMove.row,
-          nextMove.col,
-          aiPlayer
+    const bitboard = createBitBoard(board, this.rules);
+    placeMark(
+      bitboard,
+      toCellIndex(bitboard.width, move.row, move.col),
+      move.symbol ?? aiPlayer
+    );
+    return evaluatePosition(
+      bitboard,
+      aiPlayer,
+      this.rules,
+      this.evaluationWeights
+    );
+  }
+
+  /**
+   * Threat-space search: the first move of a forced win for the AI, or
+   * else the answer to one the opponent has (null when neither side has
+   * one, none was found in time or no answer holds)
+   * Each side's search gets half of what is left of the thinking time.
+   */
+  private findThreatMove(board: Board, aiPlayer: Player): Move | null {
+    const deadline = this.startTime + this.maxThinkingTime;
+    const win = findThreatWin(board, aiPlayer, this.rules, {
+      maxNodes: THREAT_SEARCH_NODES,
+      deadline: (performance.now() + deadline) / 2,
+    });
+    this.positionsEvaluated += win.nodes;
+    this.reportProgress(win.moves[0] ?? null);
+    if (win.moves.length > 0) {
+      this.forcedWin = win.moves;
+      return win.moves[0];
+    }
+
+    const defence = findThreatDefence(board, aiPlayer, this.rules, {
+      maxNodes: THREAT_SEARCH_NODES,
+      deadline,
+    });
+    this.positionsEvaluated += defence.nodes;
+    this.reportProgress(defence.move);
+    return defence.move;
+  }
+
+  /**
+   * Misère move selection: never complete one of our own lines, mirror the
+   * opponent through the center when we hold it, and otherwise stay out of
+   * the lines we are already building
+   */
+  private getMisereMove(
+    board: Board,
+    aiPlayer: Player,
+    availableMoves: Move[]
+  ): Move | null {
+    const opponent = getOpponent(aiPlayer);
+    const { width, height } = getBoardDimensions(board);
+
+    // 1. Discard moves that complete a line (they lose immediately)
+    const safeMoves = availableMoves.filter((move) => {
+      const testBoard = makeMove(board, move.row, move.col, aiPlayer);
+      return evaluateBoard(testBoard, aiPlayer, this.rules) >= 0;
+    });
+    if (safeMoves.length === 0) {
+      // Every move loses - nothing left to choose
+      return availableMoves[0];
+    }
+
+    // 2. Holding the center of an odd board, answer every opponent move
+    // with its point reflection so we never complete a line first (a torus
+    // has no center, and wrapped lines break the mirror argument)
+    const center = getCenterPosition(width, height);
+    if (
+      !this.rules.toroidal &&
+      width % 2 === 1 &&
+      height % 2 === 1 &&
+      board[center.row][center.col] === aiPlayer
+    ) {
+      const mirrorMove = safeMoves.find(
+        (move) =>
+          board[height - 1 - move.row][width - 1 - move.col] === opponent
+      );
+      if (mirrorMove) {
+        return mirrorMove;
+      }
+    }
+
+    // 3. Prefer the move that adds least to our own open lines and does
+    // not spoil the opponent's (spoiled lines can no longer hurt them)
+    const lines = generateWinningCombinations(
+      width,
+      height,
+      this.rules.winLength,
+      this.rules.toroidal,
+      this.rules.blockedCells
+    );
+
+    let bestScore = Infinity;
+    let bestMoves: Move[] = [];
+
+    for (const move of safeMoves) {
+      let risk = 0;
+      for (const line of lines) {
+        if (!line.some(([row, col]) => row === move.row && col === move.col)) {
+          continue;
+        }
+        const own = countSymbolsInLine(board, line, aiPlayer);
+        const opposing = countSymbolsInLine(board, line, opponent);
+
+        if (opposing === 0) {
+          risk += (own + 1) * (own + 1);
+        } else if (own === 0) {
+          risk += opposing;
+        }
+      }
+
+      if (risk < bestScore) {
+        bestScore = risk;
+        bestMoves = [move];
+      } else if (risk === bestScore) {
+        bestMoves.push(move);
+      }
+    }
+
+    return bestMoves[Math.floor(Math.random() * bestMoves.length)];
+  }
+
+  /**
+   * Gravity mode: drops moves that open a winning cell for the opponent
+   * directly above them (keeps all moves if every one of them does)
+   */
+  private filterGiftingMoves(
+    board: Board,
+    aiPlayer: Player,
+    availableMoves: Move[]
+  ): Move[] {
+    const opponent = getOpponent(aiPlayer);
+
+    const safeMoves = availableMoves.filter((move) => {
+      if (move.row === 0) return true;
+
+      const testBoard = makeMove(board, move.row, move.col, aiPlayer);
+      const replyBoard = makeMove(testBoard, move.row - 1, move.col, opponent);
+      return evaluateBoard(replyBoard, aiPlayer, this.rules) >= 0;
+    });
+
+    return safeMoves.length > 0 ? safeMoves : availableMoves;
+  }
+
+  /**
+   * Find strategic moves that create multiple winning opportunities
+   */
+  private findStrategicMoves(
+    board: Board,
+    aiPlayer: Player,
+    availableMoves: Move[]
+  ): Move[] {
+    const strategicMoves: Move[] = [];
+    const { width, height } = getBoardDimensions(board);
+    const lines = generateWinningCombinations(
+      width,
+      height,
+      this.rules.winLength,
+      this.rules.toroidal,
+      this.rules.blockedCells
+    );
+
+    for (const move of availableMoves) {
+      const testBoard = makeMove(board, move.row, move.col, aiPlayer);
+
+      // Count the distinct cells that would complete a line next turn
+      const winningCells = new Set<string>();
+      for (const line of lines) {
+        if (countSymbolsInLine(testBoard, line, aiPlayer) !== line.length - 1) {
+          continue;
+        }
+        const emptyCell = line.find(
+          ([row, col]) => testBoard[row][col] === null
         );
+        // With gravity the completing cell must also be reachable next turn
         if (
-          isGameOver(nextTestBoard) &&
-          evaluateBoard(nextTestBoard, aiPlayer) > 0
+          emptyCell &&
+          isValidMove(testBoard, emptyCell[0], emptyCell[1], this.rules)
         ) {
-          winningOpportunities++;
+          winningCells.add(`${emptyCell[0]},${emptyCell[1]}`);
         }
       }
 
       // If this move creates multiple winning opportunities, it's strategic
-      if (winningOpportunities >= 2) {
+      if (winningCells.size >= 2) {
         strategicMoves.push(move);
       }
     }
@@ -274,24 +1146,84 @@ export class TicTacToeAI {
     return strategicMoves;
   }
 
+  /**
+   * Picks the move that extends the most promising open lines, weighing
+   * the AI's own lines above blocking the opponent's
+   */
+  private findLinePotentialMove(
+    board: Board,
+    aiPlayer: Player,
+    availableMoves: Move[]
+  ): Move | null {
+    const opponent = getOpponent(aiPlayer);
+    const { width, height } = getBoardDimensions(board);
+    const lines = generateWinningCombinations(
+      width,
+      height,
+      this.rules.winLength,
+      this.rules.toroidal,
+      this.rules.blockedCells
+    );
+
+    let bestScore = -Infinity;
+    let bestMoves: Move[] = [];
+
+    for (const move of availableMoves) {
+      let score = 0;
+      const linesThroughMove = lines.filter((line) =>
+        line.some(([row, col]) => row === move.row && col === move.col)
+      );
+
+      for (const line of linesThroughMove) {
+        const own = countSymbolsInLine(board, line, aiPlayer);
+        const opposing = countSymbolsInLine(board, line, opponent);
+
+        if (opposing === 0) {
+          score += 1 + own * own * 2;
+        }
+        if (own === 0) {
+          score += opposing * opposing;
+        }
+      }
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestMoves = [move];
+      } else if (score === bestScore) {
+        bestMoves.push(move);
+      }
+    }
+
+    if (bestMoves.length === 0) return null;
+    return bestMoves[Math.floor(Math.random() * bestMoves.length)];
+  }
+
   /**
    * Minimax algorithm with alpha-beta pruning and depth limiting
-   * @param board Current board state
+   * Moves are made and taken back on a bitboard, and only the lines
+   * through the last move are checked for a win. Positions already
+   * searched deep enough come from the transposition table; a won game
+   * scores CLASSIC_WIN_SCORE less the plies to the win, and positions
+   * still undecided at the depth limit get a positional evaluation.
+   * @param bitboard Current position (left as it was on return)
    * @param depth Current depth in the game tree
    * @param isMaximizing Whether this is a maximizing player's turn
    * @param aiPlayer The AI player symbol
    * @param alpha Alpha value for pruning
    * @param beta Beta value for pruning
    * @param maxDepth Maximum search depth
+   * @param lastCell Cell of the move that led here (-1 at the root, where
+   * the whole board is checked)
    */
   private minimax(
-    board: Board,
+    bitboard: BitBoard,
     depth: number,
     isMaximizing: boolean,
     aiPlayer: Player,
     alpha: number,
     beta: number,
-    maxDepth: number = 9
+    maxDepth: number = 9,
+    lastCell: number = -1
   ): MinimaxResult {
     this.positionsEvaluated++;
 
@@ -308,28 +1240,74 @@ export class TicTacToeAI {
       };
     }
 
-    // Depth limit reached
-    if (depth >= maxDepth) {
+    // The side that just moved completed any line on the board
+    const lastMover = isMaximizing ? getOpponent(aiPlayer) : aiPlayer;
+    const completedLine =
+      lastCell >= 0
+        ? findLineThrough(bitboard, lastCell, this.rules)
+        : findCompleteLine(bitboard, this.rules);
+    const winner =
+      completedLine < 0
+        ? null
+        : this.rules.misere
+        ? getOpponent(lastMover)
+        : lastMover;
+
+    // Base case: game is over (prefer winning quickly and losing slowly)
+    if (winner !== null || isBitBoardFull(bitboard)) {
+      const score =
+        winner === null
+          ? 0
+          : winner === aiPlayer
+          ? CLASSIC_WIN_SCORE - depth
+          : depth - CLASSIC_WIN_SCORE;
       return {
-        score: evaluateBoard(board, aiPlayer), // Use existing evaluateBoard function
+        score,
         move: null,
         positionsEvaluated: this.positionsEvaluated,
       };
     }
 
-    // Base case: game is over
-    if (isGameOver(board)) {
-      const score = evaluateBoard(board, aiPlayer);
-      // Prefer winning quickly and losing slowly
-      const adjustedScore = score > 0 ? score - depth : score + depth;
+    // Depth limit reached: the position is judged on its lines
+    if (depth >= maxDepth) {
       return {
-        score: adjustedScore,
+        score: evaluatePosition(
+          bitboard,
+          aiPlayer,
+          this.rules,
+          this.evaluationWeights
+        ),
         move: null,
         positionsEvaluated: this.positionsEvaluated,
       };
     }
 
-    const availableMoves = getAvailableMoves(board);
+    // Positions that are images of each other share their table entry
+    const symmetry = getCanonicalSymmetry(bitboard);
+    const entry = this.probeTranspositionTable(
+      bitboard,
+      symmetry,
+      isMaximizing
+    );
+    if (entry && entry.depth >= maxDepth - depth) {
+      const score = fromTableScore(entry.score, depth);
+      if (
+        entry.bound === "exact" ||
+        (entry.bound === "lower" && score >= beta) ||
+        (entry.bound === "upper" && score <= alpha)
+      ) {
+        return {
+          score,
+          move: entry.move,
+          positionsEvaluated: this.positionsEvaluated,
+        };
+      }
+    }
+
+    const availableMoves = this.getSearchMoves(
+      bitboard,
+      isMaximizing ? aiPlayer : getOpponent(aiPlayer)
+    );
 
     if (availableMoves.length === 0) {
       return {
@@ -339,93 +1317,2586 @@ export class TicTacToeAI {
       };
     }
 
-    let bestMove: Move | null = null;
+    // Search the best move of an earlier search first
+    const tableMove = entry?.move;
+    if (tableMove) {
+      const index = availableMoves.findIndex(
+        (move) =>
+          move.row === tableMove.row &&
+          move.col === tableMove.col &&
+          move.symbol === tableMove.symbol
+      );
+      if (index > 0) {
+        availableMoves.unshift(...availableMoves.splice(index, 1));
+      }
+    }
 
-    if (isMaximizing) {
-      let maxEval = -Infinity;
+    // Moves at the root that are images of each other are worth the same
+    const searchMoves =
+      depth === 0
+        ? this.pruneSymmetricMoves(bitboard, availableMoves)
+        : availableMoves;
 
-      for (const move of availableMoves) {
-        // Early termination if timeout reached
-        if (this.timeoutReached) break;
+    const alphaStart = alpha;
+    const betaStart = beta;
+    let bestScore = isMaximizing ? -Infinity : Infinity;
+    let bestMove: Move | null = null;
 
-        const newBoard = makeMove(board, move.row, move.col, aiPlayer);
-        const eval_ = this.minimax(
-          newBoard,
-          depth + 1,
-          false,
-          aiPlayer,
-          alpha,
-          beta,
-          maxDepth
-        );
+    for (const move of searchMoves) {
+      // Early termination if timeout reached
+      if (this.timeoutReached) break;
 
-        if (eval_.score > maxEval) {
-          maxEval = eval_.score;
-          bestMove = move;
-        }
+      const cell = toCellIndex(bitboard.width, move.row, move.col);
+      placeMark(bitboard, cell, move.symbol!);
+      const eval_ = this.minimax(
+        bitboard,
+        depth + 1,
+        !isMaximizing,
+        aiPlayer,
+        alpha,
+        beta,
+        maxDepth,
+        cell
+      );
+      removeMark(bitboard, cell, move.symbol!);
+
+      if (isMaximizing ? eval_.score > bestScore : eval_.score < bestScore) {
+        bestScore = eval_.score;
+        bestMove = move;
+      }
 
+      if (isMaximizing) {
         alpha = Math.max(alpha, eval_.score);
-        if (beta <= alpha) {
-          break; // Alpha-beta pruning
-        }
+      } else {
+        beta = Math.min(beta, eval_.score);
+      }
+      if (beta <= alpha) {
+        break; // Alpha-beta pruning
       }
+    }
 
-      return {
-        score: maxEval,
+    // Scores of a search cut short are unreliable - don't keep them
+    if (!this.timeoutReached) {
+      this.storeTranspositionEntry(bitboard, symmetry, isMaximizing, {
+        depth: maxDepth - depth,
+        score: toTableScore(bestScore, depth),
+        bound:
+          bestScore <= alphaStart
+            ? "upper"
+            : bestScore >= betaStart
+            ? "lower"
+            : "exact",
         move: bestMove,
-        positionsEvaluated: this.positionsEvaluated,
-      };
+      });
+    }
+
+    return {
+      score: bestScore,
+      move: bestMove,
+      positionsEvaluated: this.positionsEvaluated,
+    };
+  }
+
+  /**
+   * Makes sure the transposition table is for the current game setup,
+   * emptying it when the board, rules, AI side or evaluation weights have
+   * changed (the scores
+   * it holds are only valid for the setup they were found in)
+   */
+  private prepareTranspositionTable(
+    bitboard: BitBoard,
+    aiPlayer: Player
+  ): void {
+    const key = JSON.stringify([
+      bitboard.width,
+      bitboard.height,
+      aiPlayer,
+      this.rules,
+      this.evaluationWeights,
+    ]);
+    if (key !== this.transpositionKey) {
+      this.transpositionTable.clear();
+      this.transpositionKey = key;
+    }
+  }
+
+  /**
+   * Looks up the current position in the transposition table
+   * Entries hold their move as played on the canonical position; it comes
+   * back mapped onto the board as it stands
+   * @param symmetry Canonical symmetry of the position
+   */
+  private probeTranspositionTable(
+    bitboard: BitBoard,
+    symmetry: number,
+    isMaximizing: boolean
+  ): TranspositionEntry | null {
+    this.tableProbes++;
+    const entry = this.transpositionTable.get(
+      getTableSlot(bitboard, symmetry, isMaximizing)
+    );
+    if (!entry || entry.check !== bitboard.hashes[symmetry * 2 + 1]) {
+      return null;
+    }
+
+    this.tableHits++;
+    const { inverse } = bitboard.symmetries[symmetry];
+    return {
+      ...entry,
+      move: entry.move && transformMove(entry.move, inverse, bitboard.width),
+    };
+  }
+
+  /**
+   * Stores a searched position under its canonical symmetry, starting the
+   * table over when it is full
+   */
+  private storeTranspositionEntry(
+    bitboard: BitBoard,
+    symmetry: number,
+    isMaximizing: boolean,
+    entry: Omit<TranspositionEntry, "check">
+  ): void {
+    if (this.transpositionTable.size >= TRANSPOSITION_TABLE_SIZE) {
+      this.transpositionTable.clear();
+    }
+
+    const { cells } = bitboard.symmetries[symmetry];
+    this.transpositionTable.set(
+      getTableSlot(bitboard, symmetry, isMaximizing),
+      {
+        ...entry,
+        check: bitboard.hashes[symmetry * 2 + 1],
+        move: entry.move && transformMove(entry.move, cells, bitboard.width),
+      }
+    );
+  }
+
+  /**
+   * Keeps one move of each set of moves that are images of each other
+   * under a symmetry of the position (the first one listed)
+   */
+  private pruneSymmetricMoves(bitboard: BitBoard, moves: Move[]): Move[] {
+    const stabilizers = getStabilizers(bitboard);
+    if (stabilizers.length === 0) return moves;
+
+    const { width } = bitboard;
+    const seen = new Set<string>();
+    return moves.filter((move) => {
+      const cell = toCellIndex(width, move.row, move.col);
+      if (seen.has(`${cell}${move.symbol}`)) return false;
+
+      for (const { cells } of stabilizers) {
+        seen.add(`${cells[cell]}${move.symbol}`);
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Gets a move together with its images under the symmetries of the
+   * position
+   */
+  private getSymmetricMoves(bitboard: BitBoard, move: Move): Move[] {
+    const moves = [move];
+    for (const { cells } of getStabilizers(bitboard)) {
+      const image = transformMove(move, cells, bitboard.width);
+      if (
+        !moves.some(({ row, col }) => row === image.row && col === image.col)
+      ) {
+        moves.push(image);
+      }
+    }
+    return moves;
+  }
+
+  /**
+   * Gets the moves the side to move can make in a search, each with the
+   * mark to place (both symbols in wild games), leaving out X's forbidden
+   * moves under Renju rules
+   */
+  private getSearchMoves(bitboard: BitBoard, mover: Player): Move[] {
+    const { width } = bitboard;
+    const symbols = this.rules.wild ? [PLAYER_X, PLAYER_O] : [mover];
+    const board =
+      this.rules.renju && mover === RENJU_RESTRICTED_PLAYER
+        ? toBoard(bitboard)
+        : null;
+    const moves: Move[] = [];
+
+    for (const cell of getPlayableCells(bitboard, this.rules)) {
+      const row = Math.floor(cell / width);
+      const col = cell % width;
+      if (board && isForbiddenMove(board, row, col, this.rules)) continue;
+
+      for (const symbol of symbols) {
+        moves.push({ row, col, symbol });
+      }
+    }
+    return moves;
+  }
+
+  /**
+   * Pairs each move with the marks the mover may place
+   * In wild games both symbols are tried, in numerical games every number
+   * left in the mover's inventory, otherwise only the mover's own symbol
+   */
+  private withMarks(board: Board, moves: Move[], mover: Player): Move[] {
+    if (this.rules.numberTarget) {
+      const numbers = getAvailableNumbers(board, mover);
+      return moves.flatMap((move) =>
+        numbers.map((value) => ({ ...move, symbol: mover, value }))
+      );
+    }
+
+    const symbols = this.rules.wild ? [PLAYER_X, PLAYER_O] : [mover];
+    return moves.flatMap((move) =>
+      symbols.map((symbol) => ({ ...move, symbol }))
+    );
+  }
+
+  /**
+   * Wild mode on larger boards: completes a line when that wins, and
+   * otherwise never leaves the opponent a line one mark short of complete
+   * (either symbol can finish it, so such a line is a win for whoever
+   * moves next)
+   */
+  private getWildMove(board: Board, aiPlayer: Player): Move | null {
+    const { width, height } = getBoardDimensions(board);
+    const availableMoves = getAvailableMoves(board, this.rules);
+    if (availableMoves.length === 0) return null;
+
+    const lines = generateWinningCombinations(
+      width,
+      height,
+      this.rules.winLength,
+      this.rules.toroidal,
+      this.rules.blockedCells
+    );
+    const candidateMoves = this.withMarks(board, availableMoves, aiPlayer);
+    this.positionsEvaluated += candidateMoves.length;
+
+    // Lines through the move that it completes or leaves one mark short
+    const getLineThreats = (move: Move) => {
+      const newBoard = makeMove(
+        board,
+        move.row,
+        move.col,
+        move.symbol!,
+        this.rules
+      );
+      let completed = false;
+      let nearlyComplete = false;
+
+      for (const line of lines) {
+        if (!line.some(([r, c]) => r === move.row && c === move.col)) {
+          continue;
+        }
+        const count = countSymbolsInLine(newBoard, line, move.symbol!);
+        if (count === line.length) {
+          completed = true;
+        } else if (count === line.length - 1) {
+          const [emptyRow, emptyCol] = line.find(
+            ([r, c]) => newBoard[r][c] !== move.symbol
+          )!;
+          // Only an empty cell the opponent can actually play finishes it
+          if (isValidMove(newBoard, emptyRow, emptyCol, this.rules)) {
+            nearlyComplete = true;
+          }
+        }
+      }
+
+      return { completed, nearlyComplete };
+    };
+
+    const evaluated = candidateMoves.map((move) => ({
+      move,
+      ...getLineThreats(move),
+    }));
+
+    if (!this.rules.misere) {
+      // 1. Complete a line - in wild games that always wins for the mover
+      const winningMove = evaluated.find((entry) => entry.completed);
+      if (winningMove) return winningMove.move;
+
+      // 2. Play a move that does not set up a line for the opponent
+      const safeMoves = evaluated.filter((entry) => !entry.nearlyComplete);
+      if (safeMoves.length > 0) {
+        return this.pickCentralMove(
+          safeMoves.map((entry) => entry.move),
+          width,
+          height
+        );
+      }
     } else {
-      let minEval = Infinity;
-      const opponent = getOpponent(aiPlayer);
-
-      for (const move of availableMoves) {
-        // Early termination if timeout reached
-        if (this.timeoutReached) break;
-
-        const newBoard = makeMove(board, move.row, move.col, opponent);
-        const eval_ = this.minimax(
-          newBoard,
-          depth + 1,
-          true,
-          aiPlayer,
-          alpha,
-          beta,
-          maxDepth
+      // Misère: completing a line loses, so avoid it whenever possible
+      const safeMoves = evaluated.filter((entry) => !entry.completed);
+      if (safeMoves.length > 0) {
+        return this.pickCentralMove(
+          safeMoves.map((entry) => entry.move),
+          width,
+          height
         );
+      }
+    }
 
-        if (eval_.score < minEval) {
-          minEval = eval_.score;
-          bestMove = move;
-        }
+    return candidateMoves[Math.floor(Math.random() * candidateMoves.length)];
+  }
 
-        beta = Math.min(beta, eval_.score);
-        if (beta <= alpha) {
-          break; // Alpha-beta pruning
+  /**
+   * Numerical mode: completes a line when a number reaches the target,
+   * otherwise never leaves a line the opponent can finish with one of their
+   * numbers, preferring moves that set up lines it can finish itself (two
+   * at once cannot both be blocked)
+   */
+  private getNumericalMove(board: Board, aiPlayer: Player): Move | null {
+    const { width, height } = getBoardDimensions(board);
+    const opponent = getOpponent(aiPlayer);
+    const target = this.rules.numberTarget!;
+    const lines = generateWinningCombinations(
+      width,
+      height,
+      this.rules.winLength,
+      this.rules.toroidal,
+      this.rules.blockedCells
+    );
+    const candidateMoves = this.withMarks(
+      board,
+      getAvailableMoves(board, this.rules),
+      aiPlayer
+    );
+    if (candidateMoves.length === 0) return null;
+
+    // Small boards are solved outright (unless time runs out first)
+    if (width * height <= MAX_NUMERICAL_SOLVE_CELLS && !this.rules.misere) {
+      const solvedMove = this.solveNumerical(board, aiPlayer, candidateMoves);
+      if (solvedMove) return solvedMove;
+    }
+    this.positionsEvaluated += candidateMoves.length;
+
+    // Cells where the player could finish a line with a number they hold
+    const countFinishingCells = (testBoard: Board, player: Player) => {
+      const numbers = new Set(getAvailableNumbers(testBoard, player));
+      const cells = new Set<string>();
+
+      for (const line of lines) {
+        const emptyCells = line.filter(([r, c]) => testBoard[r][c] === null);
+        if (emptyCells.length !== 1) continue;
+
+        const [[row, col]] = emptyCells;
+        const sum = line.reduce((total, [r, c]) => {
+          const cell = testBoard[r][c];
+          return total + (typeof cell === "number" ? cell : 0);
+        }, 0);
+        if (
+          numbers.has(target - sum) &&
+          isValidMove(testBoard, row, col, this.rules)
+        ) {
+          cells.add(`${row},${col}`);
         }
       }
 
+      return cells.size;
+    };
+
+    const evaluated = candidateMoves.map((move) => {
+      const testBoard = makeMove(board, move.row, move.col, move.value!);
       return {
-        score: minEval,
-        move: bestMove,
-        positionsEvaluated: this.positionsEvaluated,
+        move,
+        completes: lines.some((line) =>
+          isNumberLineComplete(testBoard, line, target)
+        ),
+        opponentThreats: countFinishingCells(testBoard, opponent),
+        ownThreats: countFinishingCells(testBoard, aiPlayer),
       };
+    });
+
+    // Misère: completing a line loses, so avoid it whenever possible
+    if (this.rules.misere) {
+      const safeMoves = evaluated.filter((entry) => !entry.completes);
+      const moves = (safeMoves.length > 0 ? safeMoves : evaluated).map(
+        (entry) => entry.move
+      );
+      return this.pickCentralMove(moves, width, height);
     }
+
+    // 1. Complete a line
+    const winningMove = evaluated.find((entry) => entry.completes);
+    if (winningMove) return winningMove.move;
+
+    // 2. Leave the opponent as few lines to finish as possible, then
+    // 3. set up as many lines of our own as possible
+    const fewestThreats = Math.min(
+      ...evaluated.map((entry) => entry.opponentThreats)
+    );
+    const safeMoves = evaluated.filter(
+      (entry) => entry.opponentThreats === fewestThreats
+    );
+    const mostOwnThreats = Math.max(
+      ...safeMoves.map((entry) => entry.ownThreats)
+    );
+    const bestMoves = safeMoves
+      .filter((entry) => entry.ownThreats === mostOwnThreats)
+      .map((entry) => entry.move);
+
+    return this.pickCentralMove(bestMoves, width, height);
   }
 
   /**
-   * Analyzes the current board position and returns strategic insights
+   * Solves a small numerical game exactly and returns the best of the
+   * AI's moves, or null when the thinking time ran out first
+   * The search stops at the first win it finds; solved positions are kept
+   * across the AI's moves in a game under their canonical symmetry.
    */
-  public analyzePosition(
+  private solveNumerical(
     board: Board,
-    aiPlayer: Player
-  ): {
-    evaluation: number;
-    bestMoves: Move[];
-    strategy: string;
-  } {
-    this.positionsEvaluated = 0;
-    const availableMoves = getAvailableMoves(board);
+    aiPlayer: Player,
+    candidateMoves: Move[]
+  ): Move | null {
+    const { width, height } = getBoardDimensions(board);
+    const setupKey = JSON.stringify([width, height, this.rules]);
+    if (setupKey !== this.numericalTableKey) {
+      this.numericalTable.clear();
+      this.numericalTableKey = setupKey;
+    }
+
+    const cells = board
+      .flat()
+      .map((cell) => (typeof cell === "number" ? cell : cell === null ? 0 : -1));
+    const base = cells.length + 1;
+    const search: NumericalSearch = {
+      cells,
+      width,
+      height,
+      lines: getWinningLines(width, height, this.rules).map((line) =>
+        line.map(([row, col]) => row * width + col)
+      ),
+      cellLines: getCellLines(width, height, this.rules),
+      keyWeights: getBoardSymmetries(width, height, this.rules).map(
+        (symmetry) => Array.from(symmetry.cells, (image) => base ** image)
+      ),
+      used: cells.reduce(
+        (mask, value) => (value > 0 ? mask | (1 << value) : mask),
+        0
+      ),
+      target: this.rules.numberTarget!,
+    };
+
+    let best: { move: Move; score: number } | null = null;
+    for (const move of candidateMoves) {
+      const cell = move.row * width + move.col;
+      placeNumber(search, cell, move.value!);
+      // Once a draw is in hand, later moves only need to be checked for a win
+      const score: number = this.isNumericalWin(search, cell)
+        ? 1
+        : -this.numericalNegamax(
+            search,
+            getOpponent(aiPlayer),
+            -1,
+            best ? -best.score : 1
+          );
+      removeNumber(search, cell, move.value!);
+
+      if (this.timeoutReached) return null;
+      if (!best || score > best.score) {
+        best = { move, score };
+      }
+      if (score === 1) break;
+    }
+    return best && best.move;
+  }
+
+  /**
+   * Value of a numerical position for the player to move (1 a win, 0 a
+   * draw, -1 a loss) by alpha-beta search: exact inside the window, and
+   * otherwise a bound on the side of the window it fell
+   * A player who can reach the target wins at once; one facing two cells
+   * where the opponent can reach it loses, and one facing a single such
+   * cell has to fill it.
+   */
+  private numericalNegamax(
+    search: NumericalSearch,
+    mover: Player,
+    alpha: number,
+    beta: number
+  ): number {
+    this.positionsEvaluated++;
+    if (
+      this.positionsEvaluated % 1000 === 0 &&
+      performance.now() - this.startTime > this.maxThinkingTime
+    ) {
+      this.timeoutReached = true;
+    }
+    if (this.timeoutReached) return 0;
+
+    const opponent = getOpponent(mover);
+    const ownNumbers = getNumericalNumbers(search, mover);
+    const opponentNumbers = getNumericalNumbers(search, opponent);
+    const threats = new Set<number>();
+    for (const cell of this.getNumericalCells(search)) {
+      for (const need of getNumericalNeeds(search, cell)) {
+        if (ownNumbers.includes(need)) return 1;
+        if (opponentNumbers.includes(need)) {
+          threats.add(cell);
+        }
+      }
+    }
+
+    if (threats.size > 1) return -1;
+
+    const cells =
+      threats.size > 0 ? [...threats] : this.getNumericalCells(search);
+    if (cells.length === 0 || ownNumbers.length === 0) return 0;
+
+    // Only positions that take a search are worth keeping
+    const key = getNumericalKey(search);
+    const entry = this.numericalTable.get(key);
+    if (entry) {
+      if (
+        entry.bound === "exact" ||
+        (entry.bound === "lower" && entry.value >= beta) ||
+        (entry.bound === "upper" && entry.value <= alpha)
+      ) {
+        return entry.value;
+      }
+    }
+
+    const originalAlpha = alpha;
+    let value = -1;
+    for (const cell of cells) {
+      for (const number of ownNumbers) {
+        placeNumber(search, cell, number);
+        const score = -this.numericalNegamax(search, opponent, -beta, -alpha);
+        removeNumber(search, cell, number);
+        value = Math.max(value, score);
+        alpha = Math.max(alpha, value);
+        if (alpha >= beta || this.timeoutReached) break;
+      }
+      if (alpha >= beta || this.timeoutReached) break;
+    }
+
+    if (!this.timeoutReached) {
+      this.numericalTable.set(key, {
+        value,
+        bound:
+          value <= originalAlpha
+            ? "upper"
+            : value >= beta
+              ? "lower"
+              : "exact",
+      });
+    }
+    return value;
+  }
+
+  /**
+   * Gets the empty cells a number can go in (with gravity, the lowest
+   * empty cell of each column)
+   */
+  private getNumericalCells(search: NumericalSearch): number[] {
+    const { cells, width, height } = search;
+    const open: number[] = [];
+    for (let cell = 0; cell < cells.length; cell++) {
+      if (cells[cell] !== 0) continue;
+      if (
+        this.rules.gravity &&
+        cell < (height - 1) * width &&
+        cells[cell + width] === 0
+      ) {
+        continue;
+      }
+      open.push(cell);
+    }
+    return open;
+  }
+
+  /**
+   * Checks if the number just placed in a cell completes a line on target
+   */
+  private isNumericalWin(search: NumericalSearch, cell: number): boolean {
+    return search.cellLines[cell].some((index) => {
+      const line = search.lines[index];
+      return (
+        line.every((index) => search.cells[index] > 0) &&
+        line.reduce((sum, index) => sum + search.cells[index], 0) ===
+          search.target
+      );
+    });
+  }
+
+  /**
+   * Sliding mode: alpha-beta search with iterative deepening that removes
+   * each player's oldest mark as they move
+   * Positions repeating along the search path count as draws, so the
+   * search never follows a cycle of moves forever
+   */
+  private getSlidingMove(
+    board: Board,
+    aiPlayer: Player
+  ): { move: Move | null; score: number } {
+    const { width, height } = getBoardDimensions(board);
+    const availableMoves = this.withMarks(
+      board,
+      getAvailableMoves(board, this.rules),
+      aiPlayer
+    );
+    if (availableMoves.length === 0) {
+      return { move: null, score: 0 };
+    }
+
+    this.lines = generateWinningCombinations(
+      width,
+      height,
+      this.rules.winLength,
+      this.rules.toroidal,
+      this.rules.blockedCells
+    );
+
+    let best: { move: Move | null; score: number } = {
+      move: availableMoves[0],
+      score: 0,
+    };
+
+    const path = new Set([getSlidingPositionKey(this.moveHistory, this.rules)]);
+    for (let depth = 1; depth <= width * height * 2; depth++) {
+      const result = this.slidingMinimax(
+        board,
+        this.moveHistory,
+        depth,
+        0,
+        true,
+        aiPlayer,
+        -Infinity,
+        Infinity,
+        path,
+        best.move
+      );
+
+      // A search cut short by the time limit is incomplete - discard it
+      if (this.timeoutReached) break;
+
+      best = { move: result.move, score: result.score };
+      this.depthReached = depth;
+      this.reportProgress(best.move);
+
+      // Forced result found - searching deeper changes nothing
+      if (Math.abs(result.score) >= SLIDING_WIN_SCORE - 100) break;
+    }
+
+    return best;
+  }
+
+  /**
+   * Depth-limited minimax with alpha-beta pruning for sliding games
+   * @param moves Moves played up to this position, oldest first
+   * @param path Positions on the current search line (repeats are draws)
+   * @param firstMove Move to search first (best move of the previous
+   * iteration)
+   */
+  private slidingMinimax(
+    board: Board,
+    moves: Move[],
+    depth: number,
+    ply: number,
+    isMaximizing: boolean,
+    aiPlayer: Player,
+    alpha: number,
+    beta: number,
+    path: Set<string>,
+    firstMove: Move | null = null
+  ): MinimaxResult {
+    this.positionsEvaluated++;
+
+    if (
+      this.positionsEvaluated % 100 === 0 &&
+      performance.now() - this.startTime > this.maxThinkingTime
+    ) {
+      this.timeoutReached = true;
+    }
+    if (this.timeoutReached) {
+      return {
+        score: 0,
+        move: null,
+        positionsEvaluated: this.positionsEvaluated,
+      };
+    }
+
+    if (depth === 0) {
+      return {
+        score: this.evaluateSlidingBoard(board, moves, aiPlayer),
+        move: null,
+        positionsEvaluated: this.positionsEvaluated,
+      };
+    }
+
+    const mover = isMaximizing ? aiPlayer : getOpponent(aiPlayer);
+    const candidateMoves = this.withMarks(
+      board,
+      getAvailableMoves(board, this.rules),
+      mover
+    );
+
+    // Search the previous iteration's best move first for better pruning
+    if (firstMove) {
+      const index = candidateMoves.findIndex(
+        (move) =>
+          move.row === firstMove.row &&
+          move.col === firstMove.col &&
+          move.symbol === firstMove.symbol
+      );
+      if (index > 0) {
+        candidateMoves.unshift(...candidateMoves.splice(index, 1));
+      }
+    }
+
+    let bestMove: Move | null = null;
+    let bestScore = isMaximizing ? -Infinity : Infinity;
+
+    for (const move of candidateMoves) {
+      const nextBoard = makeSlidingMove(
+        board,
+        moves,
+        move.row,
+        move.col,
+        mover,
+        move.symbol,
+        this.rules
+      );
+      const nextMoves = [...moves, move];
+      const { winner } = checkWinnerAtCell(
+        nextBoard,
+        move.row,
+        move.col,
+        mover,
+        this.rules
+      );
+
+      let score: number;
+      if (winner) {
+        score =
+          winner === aiPlayer
+            ? SLIDING_WIN_SCORE - ply - 1
+            : -SLIDING_WIN_SCORE + ply + 1;
+      } else {
+        const key = getSlidingPositionKey(nextMoves, this.rules);
+        if (path.has(key)) {
+          score = 0; // Repeated position - treat as a draw
+        } else {
+          path.add(key);
+          score = this.slidingMinimax(
+            nextBoard,
+            nextMoves,
+            depth - 1,
+            ply + 1,
+            !isMaximizing,
+            aiPlayer,
+            alpha,
+            beta,
+            path
+          ).score;
+          path.delete(key);
+        }
+      }
+
+      if (this.timeoutReached) break;
+
+      if (isMaximizing ? score > bestScore : score < bestScore) {
+        bestScore = score;
+        bestMove = move;
+      }
+
+      if (isMaximizing) {
+        alpha = Math.max(alpha, score);
+      } else {
+        beta = Math.min(beta, score);
+      }
+      if (beta <= alpha) {
+        break; // Alpha-beta pruning
+      }
+    }
+
+    return {
+      score: bestMove ? bestScore : 0,
+      move: bestMove,
+      positionsEvaluated: this.positionsEvaluated,
+    };
+  }
+
+  /**
+   * Heuristic evaluation of a sliding position from the AI's perspective
+   * Each player's next mark to vanish is left out, since it will be gone
+   * by the time their lines could be completed
+   */
+  private evaluateSlidingBoard(
+    board: Board,
+    moves: Move[],
+    aiPlayer: Player
+  ): number {
+    const opponent = getOpponent(aiPlayer);
+    const liveBoard = cloneBoard(board);
+    for (const player of [aiPlayer, opponent]) {
+      const expiring = getExpiringMark(moves, player, this.rules);
+      if (expiring) {
+        liveBoard[expiring.row][expiring.col] = null;
+      }
+    }
+
+    let score = 0;
+    for (const line of this.lines) {
+      const own = countSymbolsInLine(liveBoard, line, aiPlayer);
+      const opposing = countSymbolsInLine(liveBoard, line, opponent);
+
+      if (opposing === 0 && own > 0) {
+        score += own * own;
+      } else if (own === 0 && opposing > 0) {
+        score -= opposing * opposing;
+      }
+    }
+
+    // Misère: lines are to be avoided
+    return this.rules.misere ? -score : score;
+  }
+
+  /**
+   * Picks one of the moves closest to the board center (random tie-break);
+   * on a torus no cell is more central than another
+   */
+  private pickCentralMove(
+    moves: Move[],
+    width: BoardSize,
+    height: BoardSize
+  ): Move {
+    if (this.rules.toroidal) {
+      return moves[Math.floor(Math.random() * moves.length)];
+    }
+
+    const center = getCenterPosition(width, height);
+    const distance = (move: Move) =>
+      Math.abs(move.row - center.row) + Math.abs(move.col - center.col);
+    const closest = Math.min(...moves.map(distance));
+    const centralMoves = moves.filter((move) => distance(move) === closest);
+
+    return centralMoves[Math.floor(Math.random() * centralMoves.length)];
+  }
+
+  /**
+   * Gets the best move in quantum tic-tac-toe: a spooky mark in two cells,
+   * or the cell to collapse a pending cycle into
+   */
+  public getBestQuantumMove(
+    quantum: QuantumState,
+    aiPlayer: Player,
+    difficulty: Difficulty,
+    algorithm: AIAlgorithm = "minimax"
+  ): { move: Move | null; metrics: AIMetrics } {
+    this.startSearch();
+
+    let move: Move | null = null;
+    let score = 0;
+
+    if (this.playsEasyMove(difficulty)) {
+      move = this.getEasyQuantumMove(quantum, aiPlayer);
+    } else {
+      const result =
+        algorithm === "mcts"
+          ? this.monteCarloSearch(
+              this.getQuantumMonteCarloGame(),
+              quantum,
+              aiPlayer
+            )
+          : this.getHardQuantumMove(quantum, aiPlayer);
+      move = result.move;
+      score = result.score;
+    }
+
+    const thinkingTime = performance.now() - this.startTime;
+    this.logDecision(difficulty, move, score, thinkingTime);
+
+    return {
+      move,
+      metrics: this.getMetrics(score, thinkingTime),
+    };
+  }
+
+  /**
+   * Quantum easy mode: random moves, but never misses a collapse that
+   * completes its own line
+   */
+  private getEasyQuantumMove(
+    quantum: QuantumState,
+    aiPlayer: Player
+  ): Move | null {
+    const availableMoves = getQuantumAvailableMoves(quantum);
+    this.positionsEvaluated = availableMoves.length;
+
+    const winningCollapse = availableMoves.find(
+      (move) =>
+        move.collapse &&
+        checkQuantumWinner(makeQuantumMove(quantum, move, aiPlayer)).winner ===
+          aiPlayer
+    );
+    if (winningCollapse) {
+      return winningCollapse;
+    }
+
+    return availableMoves.length > 0
+      ? availableMoves[Math.floor(Math.random() * availableMoves.length)]
+      : null;
+  }
+
+  /**
+   * Quantum hard mode: iteratively deepened alpha-beta search over spooky
+   * moves and collapse choices
+   */
+  private getHardQuantumMove(
+    quantum: QuantumState,
+    aiPlayer: Player
+  ): { move: Move | null; score: number } {
+    const availableMoves = getQuantumAvailableMoves(quantum);
+    if (availableMoves.length === 0) {
+      return { move: null, score: 0 };
+    }
+
+    let best: { move: Move | null; score: number } = {
+      move: availableMoves[0],
+      score: 0,
+    };
+
+    // Each spooky move fills up to two cells, so the game is over within
+    // one search level per cell
+    for (let depth = 1; depth <= quantum.cells.length ** 2; depth++) {
+      const result = this.quantumMinimax(
+        quantum,
+        depth,
+        0,
+        aiPlayer,
+        aiPlayer,
+        -Infinity,
+        Infinity,
+        best.move
+      );
+
+      // A search cut short by the time limit is incomplete - discard it
+      if (this.timeoutReached) break;
+
+      best = { move: result.move, score: result.score };
+      this.depthReached = depth;
+      this.reportProgress(best.move);
+
+      // Forced result found - searching deeper changes nothing
+      if (Math.abs(result.score) >= QUANTUM_WIN_SCORE - 100) break;
+    }
+
+    return best;
+  }
+
+  /**
+   * Alpha-beta search for quantum games
+   * A collapse is chosen by the player about to move and doesn't pass the
+   * turn or use up depth, so leaves never have a cycle left hanging
+   * @param depth Remaining search depth (spooky moves)
+   * @param ply Moves played since the root (prefers quick wins)
+   * @param player Player to move (or to collapse)
+   * @param firstMove Move to search first (best move of the previous
+   * iteration)
+   */
+  private quantumMinimax(
+    quantum: QuantumState,
+    depth: number,
+    ply: number,
+    player: Player,
+    aiPlayer: Player,
+    alpha: number,
+    beta: number,
+    firstMove: Move | null = null
+  ): MinimaxResult {
+    this.positionsEvaluated++;
+
+    if (
+      this.positionsEvaluated % 100 === 0 &&
+      performance.now() - this.startTime > this.maxThinkingTime
+    ) {
+      this.timeoutReached = true;
+    }
+    if (this.timeoutReached) {
+      return {
+        score: 0,
+        move: null,
+        positionsEvaluated: this.positionsEvaluated,
+      };
+    }
+
+    const { winner } = checkQuantumWinner(quantum);
+    if (winner) {
+      return {
+        score:
+          winner === aiPlayer
+            ? QUANTUM_WIN_SCORE - ply
+            : -QUANTUM_WIN_SCORE + ply,
+        move: null,
+        positionsEvaluated: this.positionsEvaluated,
+      };
+    }
+
+    const candidateMoves = getQuantumAvailableMoves(quantum);
+    if (candidateMoves.length === 0) {
+      return {
+        score: 0, // Draw
+        move: null,
+        positionsEvaluated: this.positionsEvaluated,
+      };
+    }
+
+    if (depth <= 0 && !quantum.pendingCollapse) {
+      return {
+        score: this.evaluateQuantum(quantum, aiPlayer),
+        move: null,
+        positionsEvaluated: this.positionsEvaluated,
+      };
+    }
+
+    // Search the previous iteration's best move first for better pruning
+    if (firstMove) {
+      const index = candidateMoves.findIndex(
+        (move) =>
+          move.row === firstMove.row &&
+          move.col === firstMove.col &&
+          move.pair?.[0] === firstMove.pair?.[0] &&
+          move.pair?.[1] === firstMove.pair?.[1]
+      );
+      if (index > 0) {
+        candidateMoves.unshift(...candidateMoves.splice(index, 1));
+      }
+    }
+
+    const isMaximizing = player === aiPlayer;
+    let bestMove: Move | null = null;
+    let bestScore = isMaximizing ? -Infinity : Infinity;
+
+    for (const move of candidateMoves) {
+      const next = makeQuantumMove(quantum, move, player);
+      const eval_ = move.collapse
+        ? this.quantumMinimax(next, depth, ply, player, aiPlayer, alpha, beta)
+        : this.quantumMinimax(
+            next,
+            depth - 1,
+            ply + 1,
+            getOpponent(player),
+            aiPlayer,
+            alpha,
+            beta
+          );
+
+      if (this.timeoutReached) break;
+
+      if (isMaximizing ? eval_.score > bestScore : eval_.score < bestScore) {
+        bestScore = eval_.score;
+        bestMove = move;
+      }
+
+      if (isMaximizing) {
+        alpha = Math.max(alpha, eval_.score);
+      } else {
+        beta = Math.min(beta, eval_.score);
+      }
+      if (beta <= alpha) {
+        break; // Alpha-beta pruning
+      }
+    }
+
+    return {
+      score: bestScore,
+      move: bestMove,
+      positionsEvaluated: this.positionsEvaluated,
+    };
+  }
+
+  /**
+   * Heuristic evaluation of a quantum game from the AI's perspective
+   * Lines free of the opponent's classical marks score by the classical
+   * marks in them, plus a little for spooky marks that may still collapse
+   * there
+   */
+  private evaluateQuantum(quantum: QuantumState, aiPlayer: Player): number {
+    const opponent = getOpponent(aiPlayer);
+    const size = quantum.cells.length;
+    let score = 0;
+
+    for (const line of generateWinningCombinations(size as BoardSize)) {
+      const count = (player: Player, spooky: boolean) =>
+        line.filter(([row, col]) => {
+          const cell = quantum.cells[row][col];
+          return spooky
+            ? cell.spooky.some((mark) => mark.player === player)
+            : cell.classical?.player === player;
+        }).length;
+
+      const own = count(aiPlayer, false);
+      const opposing = count(opponent, false);
+
+      if (opposing === 0) {
+        score += (own > 0 ? Math.pow(5, own) : 0) + count(aiPlayer, true);
+      }
+      if (own === 0) {
+        score -=
+          (opposing > 0 ? Math.pow(5, opposing) : 0) + count(opponent, true);
+      }
+    }
+
+    return score;
+  }
+
+  /**
+   * Ultimate easy mode: mostly random, sometimes grabs a small board
+   */
+  private getEasyUltimateMove(
+    ultimate: UltimateBoard,
+    aiPlayer: Player
+  ): Move | null {
+    const availableMoves = getUltimateAvailableMoves(ultimate);
+    this.positionsEvaluated = availableMoves.length;
+
+    if (availableMoves.length === 0) {
+      return null;
+    }
+
+    // 70% chance of random move, 30% chance of winning a small board
+    if (Math.random() >= 0.7) {
+      const boardWinningMove = availableMoves.find((move) => {
+        const index = getSubBoardIndex(move.row, move.col);
+        const next = makeUltimateMove(ultimate, move.row, move.col, aiPlayer);
+        return next.metaBoard[Math.floor(index / 3)][index % 3] === aiPlayer;
+      });
+      if (boardWinningMove) {
+        return boardWinningMove;
+      }
+    }
+
+    return availableMoves[Math.floor(Math.random() * availableMoves.length)];
+  }
+
+  /**
+   * Ultimate hard mode: alpha-beta search with iterative deepening
+   * Searches one ply deeper at a time until the thinking budget runs out and
+   * keeps the result of the deepest search that completed
+   */
+  private getHardUltimateMove(
+    ultimate: UltimateBoard,
+    aiPlayer: Player
+  ): { move: Move | null; score: number } {
+    const availableMoves = getUltimateAvailableMoves(ultimate);
+    if (availableMoves.length === 0) {
+      return { move: null, score: 0 };
+    }
+
+    let best: { move: Move | null; score: number } = {
+      move: availableMoves[0],
+      score: 0,
+    };
+
+    const maxDepth = ULTIMATE_GRID_SIZE * ULTIMATE_GRID_SIZE;
+    for (let depth = 1; depth <= maxDepth; depth++) {
+      const result = this.ultimateMinimax(
+        ultimate,
+        depth,
+        0,
+        true,
+        aiPlayer,
+        -Infinity,
+        Infinity,
+        best.move
+      );
+
+      // A search cut short by the time limit is incomplete - discard it
+      if (this.timeoutReached) break;
+
+      best = { move: result.move, score: result.score };
+      this.depthReached = depth;
+      this.reportProgress(best.move);
+
+      // Forced result found - searching deeper changes nothing
+      if (Math.abs(result.score) >= ULTIMATE_WIN_SCORE - 100) break;
+    }
+
+    return best;
+  }
+
+  /**
+   * Depth-limited minimax with alpha-beta pruning for Ultimate boards
+   * @param depth Remaining search depth
+   * @param ply Moves played since the root (prefers quick wins)
+   * @param firstMove Move to search first (best move of the previous
+   * iteration)
+   */
+  private ultimateMinimax(
+    ultimate: UltimateBoard,
+    depth: number,
+    ply: number,
+    isMaximizing: boolean,
+    aiPlayer: Player,
+    alpha: number,
+    beta: number,
+    firstMove: Move | null = null
+  ): MinimaxResult {
+    this.positionsEvaluated++;
+
+    if (
+      this.positionsEvaluated % 100 === 0 &&
+      performance.now() - this.startTime > this.maxThinkingTime
+    ) {
+      this.timeoutReached = true;
+    }
+    if (this.timeoutReached) {
+      return {
+        score: 0,
+        move: null,
+        positionsEvaluated: this.positionsEvaluated,
+      };
+    }
+
+    const { winner } = checkUltimateWinner(ultimate);
+    if (winner) {
+      return {
+        score:
+          winner === aiPlayer
+            ? ULTIMATE_WIN_SCORE - ply
+            : -ULTIMATE_WIN_SCORE + ply,
+        move: null,
+        positionsEvaluated: this.positionsEvaluated,
+      };
+    }
+
+    const availableMoves = getUltimateAvailableMoves(ultimate);
+    if (availableMoves.length === 0) {
+      return {
+        score: 0, // Draw
+        move: null,
+        positionsEvaluated: this.positionsEvaluated,
+      };
+    }
+
+    if (depth === 0) {
+      return {
+        score: this.evaluateUltimateBoard(ultimate, aiPlayer),
+        move: null,
+        positionsEvaluated: this.positionsEvaluated,
+      };
+    }
+
+    // Search the previous iteration's best move first for better pruning
+    if (firstMove) {
+      const index = availableMoves.findIndex(
+        (move) => move.row === firstMove.row && move.col === firstMove.col
+      );
+      if (index > 0) {
+        availableMoves.unshift(...availableMoves.splice(index, 1));
+      }
+    }
+
+    const player = isMaximizing ? aiPlayer : getOpponent(aiPlayer);
+    let bestMove: Move | null = null;
+    let bestScore = isMaximizing ? -Infinity : Infinity;
+
+    for (const move of availableMoves) {
+      const next = makeUltimateMove(ultimate, move.row, move.col, player);
+      const eval_ = this.ultimateMinimax(
+        next,
+        depth - 1,
+        ply + 1,
+        !isMaximizing,
+        aiPlayer,
+        alpha,
+        beta
+      );
+
+      if (this.timeoutReached) break;
+
+      if (isMaximizing ? eval_.score > bestScore : eval_.score < bestScore) {
+        bestScore = eval_.score;
+        bestMove = move;
+      }
+
+      if (isMaximizing) {
+        alpha = Math.max(alpha, eval_.score);
+      } else {
+        beta = Math.min(beta, eval_.score);
+      }
+      if (beta <= alpha) {
+        break; // Alpha-beta pruning
+      }
+    }
+
+    return {
+      score: bestScore,
+      move: bestMove,
+      positionsEvaluated: this.positionsEvaluated,
+    };
+  }
+
+  /**
+   * Heuristic evaluation of an Ultimate position from the AI's perspective
+   * Rewards won small boards (center and corners most), open lines of
+   * small boards on the meta board, and two-in-a-rows inside open boards
+   */
+  private evaluateUltimateBoard(
+    ultimate: UltimateBoard,
+    aiPlayer: Player
+  ): number {
+    const opponent = getOpponent(aiPlayer);
+    let score = 0;
+
+    // Meta board lines
+    for (const line of WINNING_COMBINATIONS) {
+      const own = countSymbolsInLine(ultimate.metaBoard, line, aiPlayer);
+      const opposing = countSymbolsInLine(ultimate.metaBoard, line, opponent);
+
+      if (opposing === 0 && own > 0) {
+        score += own === 2 ? 40 : 8;
+      } else if (own === 0 && opposing > 0) {
+        score -= opposing === 2 ? 40 : 8;
+      }
+    }
+
+    // Small boards
+    for (let index = 0; index < 9; index++) {
+      const weight = index === 4 ? 1.5 : index % 2 === 0 ? 1.2 : 1;
+      const owner = ultimate.metaBoard[Math.floor(index / 3)][index % 3];
+
+      if (owner === aiPlayer) {
+        score += 25 * weight;
+      } else if (owner === opponent) {
+        score -= 25 * weight;
+      } else if (isSubBoardOpen(ultimate, index)) {
+        const board = ultimate.boards[index];
+        for (const line of WINNING_COMBINATIONS) {
+          const own = countSymbolsInLine(board, line, aiPlayer);
+          const opposing = countSymbolsInLine(board, line, opponent);
+
+          if (opposing === 0 && own > 0) {
+            score += (own === 2 ? 4 : 1) * weight;
+          } else if (own === 0 && opposing > 0) {
+            score -= (opposing === 2 ? 4 : 1) * weight;
+          }
+        }
+      }
+    }
+
+    return Math.round(score);
+  }
+
+  /**
+   * Cube easy mode: mostly random, sometimes completes a line
+   */
+  private getEasyCubeMove(cube: Cube, aiPlayer: Player): Move | null {
+    const availableMoves = getCubeAvailableMoves(cube);
+    this.positionsEvaluated = availableMoves.length;
+
+    if (availableMoves.length === 0) {
+      return null;
+    }
+
+    // 70% chance of random move, 30% chance of taking a win
+    if (Math.random() >= 0.7) {
+      const winningMove = this.findCubeWinningMove(cube, aiPlayer);
+      if (winningMove) {
+        return winningMove;
+      }
+    }
+
+    return availableMoves[Math.floor(Math.random() * availableMoves.length)];
+  }
+
+  /**
+   * Cube hard mode: takes wins, blocks threats, otherwise runs an
+   * iteratively deepened alpha-beta search over the most promising cells
+   */
+  private getHardCubeMove(
+    cube: Cube,
+    aiPlayer: Player
+  ): { move: Move | null; score: number } {
+    const availableMoves = this.orderCubeMoves(cube, aiPlayer);
+    if (availableMoves.length === 0) {
+      return { move: null, score: 0 };
+    }
+
+    // 1. Win immediately if possible
+    const winningMove = this.findCubeWinningMove(cube, aiPlayer);
+    if (winningMove) {
+      return { move: winningMove, score: CUBE_WIN_SCORE };
+    }
+
+    // 2. Block the opponent's immediate win
+    const blockingMove = this.findCubeWinningMove(cube, getOpponent(aiPlayer));
+    if (blockingMove) {
+      return { move: blockingMove, score: 0 };
+    }
+
+    // 3. Search deeper one ply at a time until the budget runs out
+    let best: { move: Move | null; score: number } = {
+      move: availableMoves[0],
+      score: 0,
+    };
+
+    for (let depth = 1; depth <= availableMoves.length; depth++) {
+      const result = this.cubeMinimax(
+        cube,
+        depth,
+        0,
+        true,
+        aiPlayer,
+        -Infinity,
+        Infinity,
+        best.move
+      );
+
+      // A search cut short by the time limit is incomplete - discard it
+      if (this.timeoutReached) break;
+
+      best = { move: result.move, score: result.score };
+      this.depthReached = depth;
+      this.reportProgress(best.move);
+
+      // Forced result found - searching deeper changes nothing
+      if (Math.abs(result.score) >= CUBE_WIN_SCORE - 100) break;
+    }
+
+    return best;
+  }
+
+  /**
+   * Finds a move that completes a line for the player
+   */
+  private findCubeWinningMove(cube: Cube, player: Player): Move | null {
+    const size = getCubeSize(cube);
+
+    for (const line of generateCubeWinningLines(size)) {
+      if (countSymbolsInCubeLine(cube, line, player) !== size - 1) continue;
+
+      const empty = line.find(([l, r, c]) => cube[l][r][c] === null);
+      if (empty) {
+        const [layer, row, col] = empty;
+        return { layer, row, col };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Orders the empty cells by how many live lines run through them and how
+   * far those lines are filled, for either player
+   * Strong cells come first, which lets alpha-beta prune much more
+   */
+  private orderCubeMoves(cube: Cube, aiPlayer: Player): Move[] {
+    const size = getCubeSize(cube);
+    const opponent = getOpponent(aiPlayer);
+    const cellScores = new Map<string, number>();
+
+    for (const line of generateCubeWinningLines(size)) {
+      const own = countSymbolsInCubeLine(cube, line, aiPlayer);
+      const opposing = countSymbolsInCubeLine(cube, line, opponent);
+      if (own > 0 && opposing > 0) continue; // Dead line
+
+      const weight = Math.pow(4, own + opposing);
+      for (const [layer, row, col] of line) {
+        if (cube[layer][row][col] === null) {
+          const key = `${layer},${row},${col}`;
+          cellScores.set(key, (cellScores.get(key) ?? 0) + weight);
+        }
+      }
+    }
+
+    const score = (move: Move) =>
+      cellScores.get(`${move.layer},${move.row},${move.col}`) ?? 0;
+
+    return getCubeAvailableMoves(cube).sort((a, b) => score(b) - score(a));
+  }
+
+  /**
+   * Depth-limited minimax with alpha-beta pruning for the cube
+   * Only the CUBE_BRANCH_LIMIT best-ordered cells are searched at each node
+   * @param depth Remaining search depth
+   * @param ply Moves played since the root (prefers quick wins)
+   * @param firstMove Move to search first (best move of the previous
+   * iteration)
+   */
+  private cubeMinimax(
+    cube: Cube,
+    depth: number,
+    ply: number,
+    isMaximizing: boolean,
+    aiPlayer: Player,
+    alpha: number,
+    beta: number,
+    firstMove: Move | null = null
+  ): MinimaxResult {
+    this.positionsEvaluated++;
+
+    if (
+      this.positionsEvaluated % 100 === 0 &&
+      performance.now() - this.startTime > this.maxThinkingTime
+    ) {
+      this.timeoutReached = true;
+    }
+    if (this.timeoutReached) {
+      return {
+        score: 0,
+        move: null,
+        positionsEvaluated: this.positionsEvaluated,
+      };
+    }
+
+    const { winner } = checkCubeWinner(cube);
+    if (winner) {
+      return {
+        score:
+          winner === aiPlayer ? CUBE_WIN_SCORE - ply : -CUBE_WIN_SCORE + ply,
+        move: null,
+        positionsEvaluated: this.positionsEvaluated,
+      };
+    }
+
+    if (isCubeFull(cube)) {
+      return {
+        score: 0, // Draw
+        move: null,
+        positionsEvaluated: this.positionsEvaluated,
+      };
+    }
+
+    if (depth === 0) {
+      return {
+        score: this.evaluateCube(cube, aiPlayer),
+        move: null,
+        positionsEvaluated: this.positionsEvaluated,
+      };
+    }
+
+    const player = isMaximizing ? aiPlayer : getOpponent(aiPlayer);
+    const candidateMoves = this.orderCubeMoves(cube, aiPlayer).slice(
+      0,
+      CUBE_BRANCH_LIMIT
+    );
+
+    // Search the previous iteration's best move first for better pruning
+    if (firstMove) {
+      const index = candidateMoves.findIndex(
+        (move) =>
+          move.layer === firstMove.layer &&
+          move.row === firstMove.row &&
+          move.col === firstMove.col
+      );
+      if (index > 0) {
+        candidateMoves.unshift(...candidateMoves.splice(index, 1));
+      }
+    }
+
+    let bestMove: Move | null = null;
+    let bestScore = isMaximizing ? -Infinity : Infinity;
+
+    for (const move of candidateMoves) {
+      const next = makeCubeMove(cube, move.layer!, move.row, move.col, player);
+      const eval_ = this.cubeMinimax(
+        next,
+        depth - 1,
+        ply + 1,
+        !isMaximizing,
+        aiPlayer,
+        alpha,
+        beta
+      );
+
+      if (this.timeoutReached) break;
+
+      if (isMaximizing ? eval_.score > bestScore : eval_.score < bestScore) {
+        bestScore = eval_.score;
+        bestMove = move;
+      }
+
+      if (isMaximizing) {
+        alpha = Math.max(alpha, eval_.score);
+      } else {
+        beta = Math.min(beta, eval_.score);
+      }
+      if (beta <= alpha) {
+        break; // Alpha-beta pruning
+      }
+    }
+
+    return {
+      score: bestScore,
+      move: bestMove,
+      positionsEvaluated: this.positionsEvaluated,
+    };
+  }
+
+  /**
+   * Heuristic evaluation of a cube from the AI's perspective
+   * Every line still open to one player scores by how full it is, so lines
+   * one mark short of winning dominate and two of them (a fork) even more
+   */
+  private evaluateCube(cube: Cube, aiPlayer: Player): number {
+    const size = getCubeSize(cube);
+    const opponent = getOpponent(aiPlayer);
+    let score = 0;
+
+    for (const line of generateCubeWinningLines(size)) {
+      const own = countSymbolsInCubeLine(cube, line, aiPlayer);
+      const opposing = countSymbolsInCubeLine(cube, line, opponent);
+
+      if (opposing === 0 && own > 0) {
+        score += Math.pow(5, own - 1);
+      } else if (own === 0 && opposing > 0) {
+        score -= Math.pow(5, opposing - 1);
+      }
+    }
+
+    return score;
+  }
+
+  /**
+   * Hard mode for three or four players: a paranoid search, where the AI
+   * maximises its own score and assumes every other player is out to
+   * minimise it. Unlike max^n this keeps alpha-beta pruning usable
+   */
+  private getMultiPlayerMove(
+    board: Board,
+    aiPlayer: Player
+  ): { move: Move | null; score: number } {
+    const { width, height } = getBoardDimensions(board);
+    this.lines = generateWinningCombinations(
+      width,
+      height,
+      this.rules.winLength,
+      this.rules.toroidal,
+      this.rules.blockedCells
+    );
+
+    const availableMoves = this.orderMovesByLines(board);
+    if (availableMoves.length === 0) {
+      return { move: null, score: 0 };
+    }
+
+    // 1. Win immediately if possible
+    const winningMove = this.findCompletingMove(board, aiPlayer);
+    if (winningMove) {
+      return { move: winningMove, score: MULTIPLAYER_WIN_SCORE };
+    }
+
+    // 2. Block a threat, most urgent first: the player moving next
+    for (
+      let player = getNextPlayer(aiPlayer, this.rules);
+      player !== aiPlayer;
+      player = getNextPlayer(player, this.rules)
+    ) {
+      const blockingMove = this.findCompletingMove(board, player);
+      if (blockingMove) {
+        return { move: blockingMove, score: 0 };
+      }
+    }
+
+    // 3. Search deeper one ply at a time until the budget runs out
+    let best: { move: Move | null; score: number } = {
+      move: availableMoves[0],
+      score: 0,
+    };
+
+    for (let depth = 1; depth <= availableMoves.length; depth++) {
+      const result = this.paranoidSearch(
+        board,
+        depth,
+        0,
+        aiPlayer,
+        aiPlayer,
+        -Infinity,
+        Infinity,
+        best.move
+      );
+
+      // A search cut short by the time limit is incomplete - discard it
+      if (this.timeoutReached) break;
+
+      best = { move: result.move, score: result.score };
+      this.depthReached = depth;
+      this.reportProgress(best.move);
+
+      // Forced result found - searching deeper changes nothing
+      if (Math.abs(result.score) >= MULTIPLAYER_WIN_SCORE - 100) break;
+    }
+
+    return best;
+  }
+
+  /**
+   * Finds a playable cell that completes one of the player's lines
+   */
+  private findCompletingMove(board: Board, player: Player): Move | null {
+    for (const line of this.lines) {
+      if (countSymbolsInLine(board, line, player) !== line.length - 1) {
+        continue;
+      }
+
+      const empty = line.find(([row, col]) => board[row][col] === null);
+      if (!empty || !isValidMove(board, empty[0], empty[1], this.rules)) {
+        continue;
+      }
+      // Under Renju rules a line that runs on into X's other marks is an
+      // overline, which doesn't win for X
+      if (
+        this.rules.renju &&
+        player === RENJU_RESTRICTED_PLAYER &&
+        isOverline(makeMove(board, empty[0], empty[1], player), line)
+      ) {
+        continue;
+      }
+      return { row: empty[0], col: empty[1] };
+    }
+
+    return null;
+  }
+
+  /**
+   * Gets the player holding a line on their own (null when the line is
+   * empty or shared, and so can't be completed by anyone)
+   */
+  private getLineOwner(
+    board: Board,
+    line: WinningLine
+  ): { owner: Player | null; count: number } {
+    let owner: Player | null = null;
+    let count = 0;
+
+    for (const [row, col] of line) {
+      const cell = board[row][col];
+      if (cell === null) continue;
+      if (!isPlayerMark(cell) || (owner !== null && cell !== owner)) {
+        return { owner: null, count: -1 };
+      }
+      owner = cell;
+      count++;
+    }
+
+    return { owner, count };
+  }
+
+  /**
+   * Orders the playable cells by how many live lines run through them and
+   * how far those lines are filled, whoever holds them
+   */
+  private orderMovesByLines(board: Board): Move[] {
+    const { width } = getBoardDimensions(board);
+    const cellScores = new Map<number, number>();
+
+    for (const line of this.lines) {
+      const { count } = this.getLineOwner(board, line);
+      if (count < 0) continue; // Dead line
+
+      const weight = Math.pow(4, count);
+      for (const [row, col] of line) {
+        if (board[row][col] === null) {
+          const key = row * width + col;
+          cellScores.set(key, (cellScores.get(key) ?? 0) + weight);
+        }
+      }
+    }
+
+    const score = (move: Move) =>
+      cellScores.get(move.row * width + move.col) ?? 0;
+
+    return getAvailableMoves(board, this.rules).sort(
+      (a, b) => score(b) - score(a)
+    );
+  }
+
+  /**
+   * Paranoid alpha-beta search: the AI maximises, every other player
+   * minimises, and turns rotate through all the players
+   * Only the MULTIPLAYER_BRANCH_LIMIT best-ordered cells are searched at
+   * each node
+   * @param depth Remaining search depth
+   * @param ply Moves played since the root (prefers quick wins)
+   * @param player Player to move
+   * @param firstMove Move to search first (best move of the previous
+   * iteration)
+   */
+  private paranoidSearch(
+    board: Board,
+    depth: number,
+    ply: number,
+    player: Player,
+    aiPlayer: Player,
+    alpha: number,
+    beta: number,
+    firstMove: Move | null = null
+  ): MinimaxResult {
+    this.positionsEvaluated++;
+
+    if (
+      this.positionsEvaluated % 100 === 0 &&
+      performance.now() - this.startTime > this.maxThinkingTime
+    ) {
+      this.timeoutReached = true;
+    }
+    if (this.timeoutReached || depth === 0) {
+      return {
+        score: this.timeoutReached
+          ? 0
+          : this.evaluateMultiPlayerBoard(board, aiPlayer),
+        move: null,
+        positionsEvaluated: this.positionsEvaluated,
+      };
+    }
+
+    const candidateMoves = this.orderMovesByLines(board).slice(
+      0,
+      MULTIPLAYER_BRANCH_LIMIT
+    );
+    if (candidateMoves.length === 0) {
+      return {
+        score: 0, // Draw
+        move: null,
+        positionsEvaluated: this.positionsEvaluated,
+      };
+    }
+
+    // Search the previous iteration's best move first for better pruning
+    if (firstMove) {
+      const index = candidateMoves.findIndex(
+        (move) => move.row === firstMove.row && move.col === firstMove.col
+      );
+      if (index > 0) {
+        candidateMoves.unshift(...candidateMoves.splice(index, 1));
+      }
+    }
+
+    const isMaximizing = player === aiPlayer;
+    const nextPlayer = getNextPlayer(player, this.rules);
+    let bestMove: Move | null = null;
+    let bestScore = isMaximizing ? -Infinity : Infinity;
+
+    for (const move of candidateMoves) {
+      const next = makeMove(board, move.row, move.col, player, this.rules);
+      const { winner } = checkWinnerAtCell(
+        next,
+        move.row,
+        move.col,
+        player,
+        this.rules
+      );
+      const score = winner
+        ? winner === aiPlayer
+          ? MULTIPLAYER_WIN_SCORE - ply
+          : -MULTIPLAYER_WIN_SCORE + ply
+        : this.paranoidSearch(
+            next,
+            depth - 1,
+            ply + 1,
+            nextPlayer,
+            aiPlayer,
+            alpha,
+            beta
+          ).score;
+
+      if (isMaximizing ? score > bestScore : score < bestScore) {
+        bestScore = score;
+        bestMove = move;
+      }
+      if (isMaximizing) {
+        alpha = Math.max(alpha, score);
+      } else {
+        beta = Math.min(beta, score);
+      }
+      if (beta <= alpha) break;
+    }
+
+    return {
+      score: bestScore,
+      move: bestMove,
+      positionsEvaluated: this.positionsEvaluated,
+    };
+  }
+
+  /**
+   * Heuristic evaluation with several opponents: every line held by a
+   * single player counts for its holder, against the AI for all the others
+   */
+  private evaluateMultiPlayerBoard(board: Board, aiPlayer: Player): number {
+    let score = 0;
+
+    for (const line of this.lines) {
+      const { owner, count } = this.getLineOwner(board, line);
+      if (owner === null || count === 0) continue;
+
+      const value = Math.pow(5, count - 1);
+      score += owner === aiPlayer ? value : -value;
+    }
+
+    return score;
+  }
+
+  /**
+   * Places a mark of the opening protocol (pie rule or Swap2)
+   * The last mark before the opponent picks a side goes where it leaves
+   * the position most even, so neither side is worth taking; earlier marks
+   * are spread around the center
+   * @param mark - Mark to place
+   * @param marksLeft - Opening marks still to place after this one
+   */
+  public getOpeningMove(
+    board: Board,
+    mark: Player,
+    marksLeft: number,
+    difficulty: Difficulty,
+    rules: GameRules
+  ): { move: Move | null; metrics: AIMetrics } {
+    this.startOpeningSearch(board, rules);
+
+    const candidates = this.getOpeningCandidates(board);
+    let move: Move | null = null;
+    let score = 0;
+
+    if (candidates.length === 0) {
+      move = null;
+    } else if (this.playsEasyMove(difficulty) || marksLeft > 0) {
+      move = candidates[Math.floor(Math.random() * candidates.length)];
+    } else {
+      let bestBalance = Infinity;
+      let evenMoves: Move[] = [];
+
+      for (const candidate of candidates) {
+        const after = makeMove(board, candidate.row, candidate.col, mark);
+        const evaluation = this.evaluateOpening(after);
+        const balance = Math.abs(evaluation);
+
+        if (balance < bestBalance) {
+          bestBalance = balance;
+          evenMoves = [candidate];
+          score = evaluation;
+        } else if (balance === bestBalance) {
+          evenMoves.push(candidate);
+        }
+      }
+
+      move = evenMoves[Math.floor(Math.random() * evenMoves.length)];
+    }
+
+    if (move) {
+      move = { ...move, symbol: mark };
+    }
+
+    const thinkingTime = performance.now() - this.startTime;
+    this.logDecision(difficulty, move, score, thinkingTime);
+
+    return {
+      move,
+      metrics: this.getMetrics(score, thinkingTime),
+    };
+  }
+
+  /**
+   * Decides an opening protocol: takes the other side when it looks
+   * better, and under Swap2 places two more marks when the position is
+   * too even to call
+   * @param chooser - Side making the decision
+   */
+  public chooseOpening(
+    board: Board,
+    chooser: Player,
+    choices: OpeningChoice[],
+    difficulty: Difficulty,
+    rules: GameRules
+  ): { choice: OpeningChoice; metrics: AIMetrics } {
+    this.startOpeningSearch(board, rules);
+
+    let choice: OpeningChoice;
+    let score = 0;
+
+    if (this.playsEasyMove(difficulty)) {
+      choice = choices[Math.floor(Math.random() * choices.length)];
+    } else {
+      const evaluation = this.evaluateOpening(board);
+      score = chooser === PLAYER_X ? evaluation : -evaluation;
+
+      if (
+        choices.includes("place-two") &&
+        Math.abs(score) <= OPENING_BALANCE_MARGIN
+      ) {
+        choice = "place-two";
+      } else {
+        choice = score < 0 ? "swap" : "keep";
+      }
+    }
+
+    const thinkingTime = performance.now() - this.startTime;
+    console.log(
+      `🤖 AI (${difficulty.toUpperCase()}) opening: ${choice} (score ${score})`
+    );
+
+    return {
+      choice,
+      metrics: this.getMetrics(score, thinkingTime),
+    };
+  }
+
+  /**
+   * Resets the search state for an opening decision on a classic board
+   */
+  private startOpeningSearch(board: Board, rules: GameRules): void {
+    this.startSearch();
+    this.rules = rules;
+
+    const { width, height } = getBoardDimensions(board);
+    this.lines = generateWinningCombinations(
+      width,
+      height,
+      this.rules.winLength,
+      this.rules.toroidal,
+      this.rules.blockedCells
+    );
+  }
+
+  /**
+   * Gets the cells opening marks may go on: those near the center (any
+   * cell on a torus, or when the center is full)
+   */
+  private getOpeningCandidates(board: Board): Move[] {
+    const availableMoves = getAvailableMoves(board, this.rules);
+    if (this.rules.toroidal) {
+      return availableMoves;
+    }
+
+    const { width, height } = getBoardDimensions(board);
+    const center = getCenterPosition(width, height);
+    const centralMoves = availableMoves.filter(
+      (move) =>
+        Math.abs(move.row - center.row) + Math.abs(move.col - center.col) <=
+        OPENING_RADIUS
+    );
+
+    return centralMoves.length > 0 ? centralMoves : availableMoves;
+  }
+
+  /**
+   * Evaluates an opening position for X with O to move: the line
+   * potential of both sides after O's best reply (positive favours X)
+   */
+  private evaluateOpening(board: Board): number {
+    const replies = getAvailableMoves(board, this.rules);
+    let evaluation = Infinity;
+
+    for (const reply of replies) {
+      this.positionsEvaluated++;
+      const after = makeMove(board, reply.row, reply.col, PLAYER_O);
+      const score = this.evaluateMultiPlayerBoard(after, PLAYER_X);
+      evaluation = Math.min(evaluation, this.rules.misere ? -score : score);
+    }
+
+    // A full board has no reply left to weigh
+    if (evaluation === Infinity) {
+      const score = this.evaluateMultiPlayerBoard(board, PLAYER_X);
+      return this.rules.misere ? -score : score;
+    }
+    return evaluation;
+  }
+
+  /**
+   * Monte Carlo tree search (UCT) for the whole thinking time: each round
+   * walks down the tree picking the child with the best upper confidence
+   * bound, adds one untried move, plays the game out at random and credits
+   * the result to every move on the way back up
+   * The move played is the most visited one; its score is its win rate
+   * put on the scale of positional evaluations (MAX_EVALUATION always
+   * wins, -MAX_EVALUATION always loses)
+   */
+  private monteCarloSearch<S>(
+    game: MonteCarloGame<S>,
+    state: S,
+    aiPlayer: Player
+  ): { move: Move | null; score: number } {
+    const root: MonteCarloNode<S> = {
+      step: { state, winner: null, isOver: false, nextPlayer: aiPlayer },
+      move: null,
+      mover: null,
+      parent: null,
+      children: [],
+      untriedMoves: game.getMoves(state, aiPlayer),
+      visits: 0,
+      reward: 0,
+    };
+
+    // Nothing to search with a single move (or none)
+    if (root.untriedMoves.length <= 1) {
+      return { move: root.untriedMoves[0] ?? null, score: 0 };
+    }
+
+    // Random playouts can miss a single cell that decides the game
+    const forcedMove = this.findMonteCarloForcedMove(
+      game,
+      state,
+      root.untriedMoves,
+      aiPlayer
+    );
+    if (forcedMove) {
+      return forcedMove;
+    }
+
+    do {
+      // Selection: down through fully expanded nodes
+      let node = root;
+      while (
+        !node.step.isOver &&
+        node.untriedMoves.length === 0 &&
+        node.children.length > 0
+      ) {
+        node = this.selectMonteCarloChild(node);
+      }
+
+      // Expansion: the next untried move below the node reached (moves
+      // are listed best first where the game ranks them)
+      if (!node.step.isOver && node.untriedMoves.length > 0) {
+        const move = node.untriedMoves.shift()!;
+        const player = node.step.nextPlayer;
+        const step = game.play(node.step.state, move, player);
+        this.positionsEvaluated++;
+
+        const child: MonteCarloNode<S> = {
+          step,
+          move,
+          mover: player,
+          parent: node,
+          children: [],
+          untriedMoves: step.isOver
+            ? []
+            : game.getMoves(step.state, step.nextPlayer),
+          visits: 0,
+          reward: 0,
+        };
+        node.children.push(child);
+        node = child;
+      }
+
+      // Simulation, then backpropagation
+      const winner = this.playOut(game, node.step);
+      this.simulations++;
+      for (let current: MonteCarloNode<S> | null = node; current; ) {
+        current.visits++;
+        if (current.mover) {
+          current.reward +=
+            winner === null ? 0.5 : winner === current.mover ? 1 : 0;
+        }
+        current = current.parent;
+      }
+
+      // Now and then, report the most visited move so far
+      if (
+        this.progressListener &&
+        performance.now() - this.lastProgressTime >= PROGRESS_INTERVAL
+      ) {
+        const leader = root.children.reduce((best, child) =>
+          child.visits > best.visits ? child : best
+        );
+        this.reportProgress(leader.move);
+      }
+    } while (performance.now() - this.startTime < this.maxThinkingTime);
+
+    const ranked = [...root.children].sort((a, b) => b.visits - a.visits);
+    this.moveStats = ranked.slice(0, REPORTED_MOVE_STATS).map((child) => ({
+      move: child.move!,
+      visits: child.visits,
+      winRate: child.reward / child.visits,
+    }));
+
+    const [best] = this.moveStats;
+    return {
+      move: best.move,
+      score: Math.round((best.winRate * 2 - 1) * MAX_EVALUATION),
+    };
+  }
+
+  /**
+   * Finds a move that wins at once, or else one that takes the cell where
+   * the player moving next would win
+   */
+  private findMonteCarloForcedMove<S>(
+    game: MonteCarloGame<S>,
+    state: S,
+    moves: Move[],
+    aiPlayer: Player
+  ): { move: Move; score: number } | null {
+    const steps = moves.map((move) => ({
+      move,
+      step: game.play(state, move, aiPlayer),
+    }));
+    this.positionsEvaluated += steps.length;
+
+    // 1. Win immediately if possible
+    const winning = steps.find(({ step }) => step.winner === aiPlayer);
+    if (winning) {
+      return { move: winning.move, score: MAX_EVALUATION };
+    }
+
+    // 2. Block the next player's immediate win
+    const { nextPlayer } = steps[0].step;
+    for (const threat of game.getMoves(state, nextPlayer)) {
+      this.positionsEvaluated++;
+      if (game.play(state, threat, nextPlayer).winner !== nextPlayer) continue;
+
+      const blocking = steps.find(
+        ({ move, step }) =>
+          move.row === threat.row &&
+          move.col === threat.col &&
+          move.layer === threat.layer &&
+          step.winner !== nextPlayer
+      );
+      if (blocking) {
+        return { move: blocking.move, score: 0 };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Picks the child with the highest upper confidence bound: its win rate
+   * plus a bonus that shrinks the more often it has been tried
+   */
+  private selectMonteCarloChild<S>(node: MonteCarloNode<S>): MonteCarloNode<S> {
+    const logVisits = Math.log(node.visits);
+    let best = node.children[0];
+    let bestValue = -Infinity;
+
+    for (const child of node.children) {
+      const value =
+        child.reward / child.visits +
+        UCT_EXPLORATION * Math.sqrt(logVisits / child.visits);
+      if (value > bestValue) {
+        bestValue = value;
+        best = child;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Plays random moves to the end of the game and returns the winner
+   * (null for a draw, or when the game runs past PLAYOUT_MOVE_LIMIT)
+   */
+  private playOut<S>(
+    game: MonteCarloGame<S>,
+    step: MonteCarloStep<S>
+  ): Player | null {
+    if (game.playOut && !step.isOver) {
+      return game.playOut(step.state, step.nextPlayer);
+    }
+
+    let current = step;
+    for (let plies = 0; !current.isOver; plies++) {
+      const moves = game.getMoves(current.state, current.nextPlayer);
+      if (moves.length === 0 || plies >= PLAYOUT_MOVE_LIMIT) return null;
+
+      const move = moves[Math.floor(Math.random() * moves.length)];
+      current = game.play(current.state, move, current.nextPlayer);
+      this.positionsEvaluated++;
+    }
+    return current.winner;
+  }
+
+  /**
+   * Classic boards under the current rules (any variant and number of
+   * players), with the moves played so far for sliding games
+   */
+  private getClassicMonteCarloGame(board: Board): MonteCarloGame<{
+    board: Board;
+    moves: Move[];
+  }> {
+    // Plain k-in-a-row (the common case on large boards) has smarter
+    // playouts; marks that change hands or expire don't. Renju's
+    // restrictions are left out of the playouts, the tree keeps to them
+    const { misere, wild, maxMarks, numberTarget } = this.rules;
+    const isPlainGame =
+      (this.rules.playerCount ?? 2) === 2 &&
+      !misere &&
+      !wild &&
+      !maxMarks &&
+      !numberTarget;
+
+    // On large boards the tree only grows the most promising cells
+    const { width, height } = getBoardDimensions(board);
+    const isRanked = isPlainGame && width * height > MONTE_CARLO_FOCUS_CELLS;
+    this.lines = getWinningLines(width, height, this.rules);
+
+    return {
+      getMoves: ({ board }, player) =>
+        this.withMarks(
+          board,
+          isRanked
+            ? this.orderMovesByLines(board).slice(
+                0,
+                MONTE_CARLO_BRANCH_LIMIT
+              )
+            : this.getFocusMoves(board),
+          player
+        ),
+      playOut: isPlainGame
+        ? ({ board }, player) => this.playOutClassic(board, player)
+        : undefined,
+      play: ({ board, moves }, move, player) => {
+        const mark = this.rules.numberTarget ? move.value! : move.symbol!;
+        const next = makeSlidingMove(
+          board,
+          moves,
+          move.row,
+          move.col,
+          player,
+          mark,
+          this.rules
+        );
+        const { winner } = checkWinnerAtCell(
+          next,
+          move.row,
+          move.col,
+          player,
+          this.rules
+        );
+
+        return {
+          state: {
+            board: next,
+            moves: this.rules.maxMarks ? [...moves, move] : moves,
+          },
+          winner,
+          isOver: winner !== null || isBoardFull(next),
+          nextPlayer: getNextPlayer(player, this.rules),
+        };
+      },
+    };
+  }
+
+  /**
+   * Gets the moves a Monte Carlo search plays on a classic board: every
+   * move on small boards, on large ones only those near a mark (near the
+   * center before the first mark), where the game is being fought
+   */
+  private getFocusMoves(board: Board): Move[] {
+    const moves = getAvailableMoves(board, this.rules);
+    const focus = this.getFocusArea(board);
+    if (!focus) return moves;
+
+    const { width } = getBoardDimensions(board);
+    const focused = moves.filter(({ row, col }) => focus[row * width + col]);
+    return focused.length > 0 ? focused : moves;
+  }
+
+  /**
+   * Gets the cells within MONTE_CARLO_FOCUS_RADIUS of a mark, by cell index
+   * (null on boards small enough to play every cell)
+   */
+  private getFocusArea(board: Board): Uint8Array | null {
+    const { width, height } = getBoardDimensions(board);
+    if (width * height <= MONTE_CARLO_FOCUS_CELLS) {
+      return null;
+    }
+
+    const focus = new Uint8Array(width * height);
+    let marks = 0;
+    board.forEach((cells, row) =>
+      cells.forEach((cell, col) => {
+        if (isPlayerMark(cell) || typeof cell === "number") {
+          this.addFocusArea(focus, width, height, row, col);
+          marks++;
+        }
+      })
+    );
+    if (marks === 0) {
+      const center = getCenterPosition(width, height);
+      this.addFocusArea(focus, width, height, center.row, center.col);
+    }
+    return focus;
+  }
+
+  /**
+   * Adds the cells around a cell to a focus area (wrapping around on a
+   * torus)
+   */
+  private addFocusArea(
+    focus: Uint8Array,
+    width: number,
+    height: number,
+    centerRow: number,
+    centerCol: number
+  ): void {
+    const radius = MONTE_CARLO_FOCUS_RADIUS;
+    for (let row = centerRow - radius; row <= centerRow + radius; row++) {
+      for (let col = centerCol - radius; col <= centerCol + radius; col++) {
+        if (this.rules.toroidal) {
+          focus[
+            ((row + height) % height) * width + ((col + width) % width)
+          ] = 1;
+        } else if (row >= 0 && row < height && col >= 0 && col < width) {
+          focus[row * width + col] = 1;
+        }
+      }
+    }
+  }
+
+  /**
+   * Plays a two-player k-in-a-row game out on a bitboard, completing a line
+   * when it can and otherwise blocking the opponent's, and picking at
+   * random near the marks the rest of the time
+   * Far stronger playouts than random moves on large boards, where a
+   * random player almost never finishes or stops a line. Marks per line
+   * are counted as they go down, so a line one mark short is found without
+   * looking at its cells.
+   */
+  private playOutClassic(board: Board, player: Player): Player | null {
+    const bitboard = createBitBoard(board, this.rules);
+    const { width, height, lineMasks } = bitboard;
+    const lineCells = lineMasks.lines.map((line) =>
+      line.map(([row, col]) => toCellIndex(width, row, col))
+    );
+    const counts = new Int32Array(lineCells.length * 2); // X's, then O's
+    lineCells.forEach((cells, line) => {
+      for (const cell of cells) {
+        const mark = getMarkAt(bitboard, cell);
+        if (mark) counts[line * 2 + (mark === PLAYER_X ? 0 : 1)]++;
+      }
+    });
+
+    const focus = this.getFocusArea(board);
+    const playable = new Uint8Array(width * height);
+    // An empty, playable cell that completes a line for a side
+    const findCompletingCell = (side: number): number | undefined => {
+      for (let line = 0; line < lineCells.length; line++) {
+        const cells = lineCells[line];
+        if (
+          counts[line * 2 + side] !== cells.length - 1 ||
+          counts[line * 2 + 1 - side] !== 0
+        ) {
+          continue;
+        }
+        const cell = cells.find((cell) => playable[cell]);
+        if (cell !== undefined) return cell;
+      }
+      return undefined;
+    };
+
+    let mover = player;
+    for (let plies = 0; plies < PLAYOUT_MOVE_LIMIT; plies++) {
+      const cells = getPlayableCells(bitboard, this.rules);
+      if (cells.length === 0) return null;
+
+      this.positionsEvaluated++;
+      playable.fill(0);
+      cells.forEach((cell) => (playable[cell] = 1));
+      const side = mover === PLAYER_X ? 0 : 1;
+      if (findCompletingCell(side) !== undefined) {
+        return mover;
+      }
+
+      const focused = focus ? cells.filter((cell) => focus[cell]) : cells;
+      const choices = focused.length > 0 ? focused : cells;
+      const cell =
+        findCompletingCell(1 - side) ??
+        choices[Math.floor(Math.random() * choices.length)];
+
+      placeMark(bitboard, cell, mover);
+      for (const line of lineMasks.cellLines[cell]) {
+        counts[line * 2 + side]++;
+      }
+      if (focus) {
+        this.addFocusArea(
+          focus,
+          width,
+          height,
+          Math.floor(cell / width),
+          cell % width
+        );
+      }
+      mover = getOpponent(mover);
+    }
+    return null;
+  }
+
+  /**
+   * Ultimate Tic-Tac-Toe (moves in global 9x9 coordinates)
+   */
+  private getUltimateMonteCarloGame(): MonteCarloGame<UltimateBoard> {
+    return {
+      getMoves: (ultimate) => getUltimateAvailableMoves(ultimate),
+      play: (ultimate, move, player) => {
+        const next = makeUltimateMove(ultimate, move.row, move.col, player);
+        const { winner } = checkUltimateWinner(next);
+        return {
+          state: next,
+          winner,
+          isOver:
+            winner !== null || getUltimateAvailableMoves(next).length === 0,
+          nextPlayer: getOpponent(player),
+        };
+      },
+    };
+  }
+
+  /**
+   * 3D tic-tac-toe (moves carry their cube layer)
+   */
+  private getCubeMonteCarloGame(): MonteCarloGame<Cube> {
+    return {
+      getMoves: (cube) => getCubeAvailableMoves(cube),
+      play: (cube, move, player) => {
+        const next = makeCubeMove(
+          cube,
+          move.layer!,
+          move.row,
+          move.col,
+          player
+        );
+        const { winner } = checkCubeWinner(next);
+        return {
+          state: next,
+          winner,
+          isOver: winner !== null || isCubeFull(next),
+          nextPlayer: getOpponent(player),
+        };
+      },
+    };
+  }
+
+  /**
+   * Quantum tic-tac-toe: collapsing a cycle doesn't pass the turn
+   */
+  private getQuantumMonteCarloGame(): MonteCarloGame<QuantumState> {
+    return {
+      getMoves: (quantum) => getQuantumAvailableMoves(quantum),
+      play: (quantum, move, player) => {
+        const next = makeQuantumMove(quantum, move, player);
+        const { winner } = checkQuantumWinner(next);
+        return {
+          state: next,
+          winner,
+          isOver:
+            winner !== null || getQuantumAvailableMoves(next).length === 0,
+          nextPlayer: move.collapse ? player : getOpponent(player),
+        };
+      },
+    };
+  }
+
+  /**
+   * Analyzes the current board position and returns strategic insights
+   */
+  public analyzePosition(
+    board: Board,
+    aiPlayer: Player,
+    rules?: GameRules
+  ): {
+    evaluation: number;
+    bestMoves: Move[];
+    strategy: string;
+  } {
+    this.startSearch();
+    const { width, height } = getBoardDimensions(board);
+    this.rules = rules ?? { winLength: getDefaultWinLength(width, height) };
+    const availableMoves = getAvailableMoves(board, this.rules);
 
     if (availableMoves.length === 0) {
       return {
@@ -435,17 +3906,24 @@ export class TicTacToeAI {
       };
     }
 
-    // Evaluate all possible moves
-    const moveEvaluations = availableMoves.map((move) => {
-      const newBoard = makeMove(board, move.row, move.col, aiPlayer);
+    // Evaluate all possible moves (one of each set of symmetric moves)
+    const bitboard = createBitBoard(board, this.rules);
+    this.prepareTranspositionTable(bitboard, aiPlayer);
+    const candidates = this.pruneSymmetricMoves(bitboard, availableMoves);
+    const moveEvaluations = candidates.map((move) => {
+      const cell = toCellIndex(width, move.row, move.col);
+      placeMark(bitboard, cell, aiPlayer);
       const score = this.minimax(
-        newBoard,
+        bitboard,
         0,
         false,
         aiPlayer,
         -Infinity,
-        Infinity
+        Infinity,
+        9,
+        cell
       ).score;
+      removeMark(bitboard, cell, aiPlayer);
       return { move, score };
     });
 
@@ -453,13 +3931,16 @@ export class TicTacToeAI {
     moveEvaluations.sort((a, b) => b.score - a.score);
 
     const bestScore = moveEvaluations[0].score;
+    // Symmetric moves are just as good, so they all count as best
     const bestMoves = moveEvaluations
       .filter((evaluation) => evaluation.score === bestScore)
-      .map((evaluation) => evaluation.move);
+      .flatMap((evaluation) =>
+        this.getSymmetricMoves(bitboard, evaluation.move)
+      );
 
     // Determine strategy based on evaluation
     let strategy = "";
-    if (bestScore > 5) {
+    if (bestScore >= WINNING_EVALUATION) {
       strategy = "Winning position - going for the kill!";
     } else if (bestScore > 0) {
       strategy = "Slight advantage - playing carefully";
@@ -477,11 +3958,13 @@ export class TicTacToeAI {
   }
 
   /**
-   * Resets the AI metrics
+   * Resets the AI metrics and forgets the positions searched (for a new
+   * game)
    */
   public reset(): void {
     this.positionsEvaluated = 0;
     this.startTime = 0;
+    this.transpositionTable.clear();
   }
 }
 
@@ -0,0 +1,54 @@
+import { AIAlgorithm, Difficulty, Move } from "@/types/game";
+
+/**
+ * AI options and move descriptions for the UI
+ *
+ * Kept apart from the engine, so the settings and metrics components
+ * don't depend on the search code.
+ */
+
+// AI levels, weakest first
+export const DIFFICULTY_LEVELS: {
+  value: Difficulty;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "easy",
+    label: "Easy",
+    description: "AI makes random moves - good for beginners",
+  },
+  {
+    value: "medium",
+    label: "Medium",
+    description: "AI looks a move ahead and often slips up",
+  },
+  {
+    value: "strong",
+    label: "Strong",
+    description: "AI looks further ahead and rarely slips up",
+  },
+  {
+    value: "hard",
+    label: "Hard",
+    description: "Strongest level - never lost to Strong in self-play",
+  },
+];
+
+// Search options of the AI above easy
+export const AI_ALGORITHMS: { value: AIAlgorithm; label: string }[] = [
+  { value: "minimax", label: "Minimax" },
+  { value: "mcts", label: "Monte Carlo" },
+];
+
+/**
+ * Describes the cell of a move for the search statistics (1-based; both
+ * cells of a quantum pair)
+ */
+export function describeMove(move: Move): string {
+  const cell = `row ${move.row + 1}, col ${move.col + 1}`;
+  if (move.pair) {
+    return `${cell} + row ${move.pair[0] + 1}, col ${move.pair[1] + 1}`;
+  }
+  return move.layer === undefined ? cell : `layer ${move.layer + 1}, ${cell}`;
+}
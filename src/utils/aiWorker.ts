@@ -0,0 +1,40 @@
+import { AIWorkerRequest, AIWorkerResponse } from "@/types/game";
+import { aiEngine } from "@/utils/aiEngine";
+import { getAIDecision } from "@/utils/aiDecision";
+
+/**
+ * AI worker: runs the searches the page hands it (through aiClient) off
+ * the main thread
+ *
+ * Progress is posted while a search runs and the decision once it ends,
+ * both tagged with the id of the request. The engine lives as long as the
+ * worker, so positions stored by one move's search serve the next.
+ */
+
+function post(response: AIWorkerResponse): void {
+  self.postMessage(response);
+}
+
+self.addEventListener("message", (event: MessageEvent<AIWorkerRequest>) => {
+  const message = event.data;
+  if (message.type === "reset") {
+    aiEngine.reset();
+    return;
+  }
+
+  const { id, request } = message;
+  aiEngine.setProgressListener((progress) =>
+    post({ type: "progress", id, progress })
+  );
+  try {
+    post({ type: "decision", id, decision: getAIDecision(request) });
+  } catch (error) {
+    post({
+      type: "error",
+      id,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  } finally {
+    aiEngine.setProgressListener(null);
+  }
+});
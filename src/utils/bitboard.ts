@@ -0,0 +1,474 @@
+import {
+  Board,
+  GameRules,
+  Player,
+  WinningLine,
+  BLOCKED_CELL,
+  PLAYER_X,
+  PLAYER_O,
+} from "@/types/game";
+import {
+  getBoardDimensions,
+  getCellLines,
+  getWinningLines,
+  RENJU_RESTRICTED_PLAYER,
+} from "@/utils/gameLogic";
+import { BoardSymmetry, getBoardSymmetries } from "@/utils/symmetry";
+
+/**
+ * Bitboards for the AI's search
+ *
+ * Each side's marks are a set of bits, one per cell in row-major order,
+ * packed into 32-bit words. A line is a mask over the same bits, so it is
+ * complete when a side's marks cover its mask. The masks are worked out
+ * once per board geometry together with the lines through each cell, and
+ * moves are made and taken back in place instead of copying the board.
+ * Only X and O have bits: the search is for two-player games.
+ *
+ * Each bitboard also keeps a Zobrist hash of its marks: every (cell, mark)
+ * pair has a random 64-bit key, held as two 32-bit halves, and the hash is
+ * the XOR of the keys of the marks on the board. Placing or removing a
+ * mark XORs its key in or out, so the hash follows the search for free.
+ * One hash is kept per symmetry of the board, as if the marks had been
+ * moved by it; the smallest of them is the same for every image of a
+ * position, so it identifies the position up to symmetry.
+ */
+
+// Cells per word of a bit set
+const WORD_BITS = 32;
+
+// Line masks of a board geometry
+export interface LineMasks {
+  lines: WinningLine[];
+  masks: Uint32Array; // One mask per line, `words` words each
+  cellLines: Int32Array[]; // Lines through each cell
+  ends: Int32Array; // Cells just past both ends of each line (-1 off board)
+}
+
+export interface BitBoard {
+  width: number;
+  height: number;
+  words: number; // 32-bit words per bit set
+  marks: [Uint32Array, Uint32Array]; // X's marks, then O's
+  blocked: Uint32Array; // Cells that take no mark (shaped boards)
+  blockedCount: number;
+  markCount: number;
+  lineMasks: LineMasks;
+  symmetries: BoardSymmetry[]; // Symmetries under the rules, identity first
+  hashes: Uint32Array; // Zobrist hash under each symmetry (low, high 32 bits)
+}
+
+// Line masks by board geometry and rules
+const lineMasksCache = new Map<WinningLine[], LineMasks>();
+
+// Zobrist keys, four per cell: X's low and high halves, then O's
+// (grown as larger boards come up; random per session)
+let zobristKeys = new Uint32Array(0);
+
+/**
+ * Gets the cell index of a board position
+ */
+export function toCellIndex(width: number, row: number, col: number): number {
+  return row * width + col;
+}
+
+/**
+ * Gets the Zobrist keys for boards of up to `cellCount` cells
+ */
+function getZobristKeys(cellCount: number): Uint32Array {
+  if (zobristKeys.length < cellCount * 4) {
+    const keys = new Uint32Array(cellCount * 4);
+    keys.set(zobristKeys);
+    for (let index = zobristKeys.length; index < keys.length; index++) {
+      keys[index] = Math.floor(Math.random() * 0x100000000);
+    }
+    zobristKeys = keys;
+  }
+  return zobristKeys;
+}
+
+/**
+ * Gets the line masks for a board geometry (built once per geometry)
+ */
+export function getLineMasks(
+  width: number,
+  height: number,
+  rules?: GameRules
+): LineMasks {
+  const lines = getWinningLines(width, height, rules);
+  const cached = lineMasksCache.get(lines);
+  if (cached) {
+    return cached;
+  }
+
+  const words = Math.ceil((width * height) / WORD_BITS);
+  const masks = new Uint32Array(lines.length * words);
+  const ends = new Int32Array(lines.length * 2);
+  const cellAt = (row: number, col: number) =>
+    row >= 0 && row < height && col >= 0 && col < width
+      ? toCellIndex(width, row, col)
+      : -1;
+
+  lines.forEach((line, index) => {
+    for (const [row, col] of line) {
+      const cell = toCellIndex(width, row, col);
+      masks[index * words + (cell >>> 5)] |= 1 << (cell & 31);
+    }
+
+    const [firstRow, firstCol] = line[0];
+    const [lastRow, lastCol] = line[line.length - 1];
+    const rowStep = line[1][0] - firstRow;
+    const colStep = line[1][1] - firstCol;
+    ends[index * 2] = cellAt(firstRow - rowStep, firstCol - colStep);
+    ends[index * 2 + 1] = cellAt(lastRow + rowStep, lastCol + colStep);
+  });
+
+  const lineMasks: LineMasks = {
+    lines,
+    masks,
+    cellLines: getCellLines(width, height, rules).map((cellLines) =>
+      Int32Array.from(cellLines)
+    ),
+    ends,
+  };
+  lineMasksCache.set(lines, lineMasks);
+  return lineMasks;
+}
+
+/**
+ * Creates a bitboard from a board
+ */
+export function createBitBoard(board: Board, rules?: GameRules): BitBoard {
+  const { width, height } = getBoardDimensions(board);
+  const words = Math.ceil((width * height) / WORD_BITS);
+  const bitboard: BitBoard = {
+    width,
+    height,
+    words,
+    marks: [new Uint32Array(words), new Uint32Array(words)],
+    blocked: new Uint32Array(words),
+    blockedCount: 0,
+    markCount: 0,
+    lineMasks: getLineMasks(width, height, rules),
+    symmetries: getBoardSymmetries(width, height, rules),
+    hashes: new Uint32Array(0),
+  };
+  bitboard.hashes = new Uint32Array(bitboard.symmetries.length * 2);
+  getZobristKeys(width * height);
+
+  board.forEach((row, rowIndex) =>
+    row.forEach((cell, colIndex) => {
+      const index = toCellIndex(width, rowIndex, colIndex);
+      if (cell === PLAYER_X || cell === PLAYER_O) {
+        placeMark(bitboard, index, cell);
+      } else if (cell === BLOCKED_CELL) {
+        bitboard.blocked[index >>> 5] |= 1 << (index & 31);
+        bitboard.blockedCount++;
+      }
+    })
+  );
+
+  return bitboard;
+}
+
+/**
+ * Gets a side's bit set
+ */
+function getMarks(bitboard: BitBoard, mark: Player): Uint32Array {
+  return bitboard.marks[mark === PLAYER_X ? 0 : 1];
+}
+
+/**
+ * Gets the mark in a cell (null when empty or blocked)
+ */
+export function getMarkAt(bitboard: BitBoard, cell: number): Player | null {
+  const word = cell >>> 5;
+  const bit = 1 << (cell & 31);
+  if (bitboard.marks[0][word] & bit) return PLAYER_X;
+  if (bitboard.marks[1][word] & bit) return PLAYER_O;
+  return null;
+}
+
+/**
+ * Checks if a cell is empty (no mark and not blocked)
+ */
+export function isCellEmpty(bitboard: BitBoard, cell: number): boolean {
+  const word = cell >>> 5;
+  const bit = 1 << (cell & 31);
+  return (
+    ((bitboard.marks[0][word] |
+      bitboard.marks[1][word] |
+      bitboard.blocked[word]) &
+      bit) ===
+    0
+  );
+}
+
+/**
+ * XORs a mark's Zobrist key into the hashes, under each symmetry the key
+ * of the cell it moves to (adding and removing a mark are the same
+ * operation)
+ */
+function toggleHash(bitboard: BitBoard, cell: number, mark: Player): void {
+  const { symmetries, hashes } = bitboard;
+  const offset = mark === PLAYER_X ? 0 : 2;
+  for (let index = 0; index < symmetries.length; index++) {
+    const key = symmetries[index].cells[cell] * 4 + offset;
+    hashes[index * 2] ^= zobristKeys[key];
+    hashes[index * 2 + 1] ^= zobristKeys[key + 1];
+  }
+}
+
+/**
+ * Gets the symmetry with the smallest hash, which maps the position onto
+ * the same canonical one as any of its images
+ */
+export function getCanonicalSymmetry(bitboard: BitBoard): number {
+  const { hashes } = bitboard;
+  let best = 0;
+  for (let index = 1; index * 2 < hashes.length; index++) {
+    const low = hashes[index * 2];
+    const bestLow = hashes[best * 2];
+    if (
+      low < bestLow ||
+      (low === bestLow && hashes[index * 2 + 1] < hashes[best * 2 + 1])
+    ) {
+      best = index;
+    }
+  }
+  return best;
+}
+
+/**
+ * Gets the symmetries (other than identity) that map the position onto
+ * itself
+ */
+export function getStabilizers(bitboard: BitBoard): BoardSymmetry[] {
+  const { width, height, symmetries, hashes } = bitboard;
+  return symmetries.filter((symmetry, index) => {
+    if (
+      index === 0 ||
+      hashes[index * 2] !== hashes[0] ||
+      hashes[index * 2 + 1] !== hashes[1]
+    ) {
+      return false;
+    }
+    // Equal hashes almost certainly mean equal positions - make sure
+    for (let cell = 0; cell < width * height; cell++) {
+      if (
+        getMarkAt(bitboard, symmetry.cells[cell]) !== getMarkAt(bitboard, cell)
+      ) {
+        return false;
+      }
+    }
+    return true;
+  });
+}
+
+/**
+ * Places X or O in an empty cell (in place)
+ */
+export function placeMark(
+  bitboard: BitBoard,
+  cell: number,
+  mark: Player
+): void {
+  getMarks(bitboard, mark)[cell >>> 5] |= 1 << (cell & 31);
+  bitboard.markCount++;
+  toggleHash(bitboard, cell, mark);
+}
+
+/**
+ * Takes back a mark placed with placeMark (in place)
+ */
+export function removeMark(
+  bitboard: BitBoard,
+  cell: number,
+  mark: Player
+): void {
+  getMarks(bitboard, mark)[cell >>> 5] &= ~(1 << (cell & 31));
+  bitboard.markCount--;
+  toggleHash(bitboard, cell, mark);
+}
+
+/**
+ * Counts the set bits of a word
+ */
+function countBits(word: number): number {
+  let count = 0;
+  for (let bits = word; bits !== 0; bits &= bits - 1) count++;
+  return count;
+}
+
+/**
+ * Counts a side's marks in a line
+ */
+export function countLineMarks(
+  bitboard: BitBoard,
+  line: number,
+  mark: Player
+): number {
+  const { words, lineMasks } = bitboard;
+  const marks = getMarks(bitboard, mark);
+  let count = 0;
+  for (let word = 0; word < words; word++) {
+    count += countBits(marks[word] & lineMasks.masks[line * words + word]);
+  }
+  return count;
+}
+
+/**
+ * Checks if a line runs through a blocked cell (it can never be completed)
+ */
+export function isLineBlocked(bitboard: BitBoard, line: number): boolean {
+  const { words, lineMasks } = bitboard;
+  for (let word = 0; word < words; word++) {
+    if (bitboard.blocked[word] & lineMasks.masks[line * words + word]) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Checks if a side's marks cover a line
+ * Under Renju rules a line of X's that runs on into more X's is an
+ * overline, which doesn't count
+ */
+function isLineComplete(
+  bitboard: BitBoard,
+  line: number,
+  mark: Player,
+  rules?: GameRules
+): boolean {
+  const { words, lineMasks } = bitboard;
+  const marks = getMarks(bitboard, mark);
+  for (let word = 0; word < words; word++) {
+    const mask = lineMasks.masks[line * words + word];
+    // `&` gives a signed result; the mask is unsigned
+    if ((marks[word] & mask) >>> 0 !== mask) return false;
+  }
+
+  if (rules?.renju && mark === RENJU_RESTRICTED_PLAYER) {
+    for (const end of [
+      lineMasks.ends[line * 2],
+      lineMasks.ends[line * 2 + 1],
+    ]) {
+      if (end >= 0 && getMarkAt(bitboard, end) === mark) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Finds a complete line through a cell for the mark in it (-1 if none)
+ * Only lines through the last move can have been completed by it, so
+ * this is all a search needs to check after each move
+ */
+export function findLineThrough(
+  bitboard: BitBoard,
+  cell: number,
+  rules?: GameRules
+): number {
+  const mark = getMarkAt(bitboard, cell);
+  if (!mark) return -1;
+
+  for (const line of bitboard.lineMasks.cellLines[cell]) {
+    if (isLineComplete(bitboard, line, mark, rules)) return line;
+  }
+  return -1;
+}
+
+/**
+ * Finds a complete line anywhere on the board (-1 if none)
+ */
+export function findCompleteLine(
+  bitboard: BitBoard,
+  rules?: GameRules
+): number {
+  const { lines } = bitboard.lineMasks;
+  for (let line = 0; line < lines.length; line++) {
+    if (
+      isLineComplete(bitboard, line, PLAYER_X, rules) ||
+      isLineComplete(bitboard, line, PLAYER_O, rules)
+    ) {
+      return line;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Checks if placing a mark in an empty cell would complete a line
+ */
+export function completesLine(
+  bitboard: BitBoard,
+  cell: number,
+  mark: Player,
+  rules?: GameRules
+): boolean {
+  placeMark(bitboard, cell, mark);
+  const completed = findLineThrough(bitboard, cell, rules) >= 0;
+  removeMark(bitboard, cell, mark);
+  return completed;
+}
+
+/**
+ * Gets the cells a mark can go in, in the order getAvailableMoves lists
+ * them (with gravity, the lowest empty cell of each column)
+ */
+export function getPlayableCells(
+  bitboard: BitBoard,
+  rules?: GameRules
+): number[] {
+  const { width, height } = bitboard;
+  const cells: number[] = [];
+
+  if (rules?.gravity) {
+    for (let col = 0; col < width; col++) {
+      for (let row = height - 1; row >= 0; row--) {
+        const cell = toCellIndex(width, row, col);
+        if (isCellEmpty(bitboard, cell)) {
+          cells.push(cell);
+          break;
+        }
+      }
+    }
+    return cells;
+  }
+
+  for (let cell = 0; cell < width * height; cell++) {
+    if (isCellEmpty(bitboard, cell)) {
+      cells.push(cell);
+    }
+  }
+  return cells;
+}
+
+/**
+ * Checks if every cell holds a mark or is blocked
+ */
+export function isBitBoardFull(bitboard: BitBoard): boolean {
+  return (
+    bitboard.markCount + bitboard.blockedCount ===
+    bitboard.width * bitboard.height
+  );
+}
+
+/**
+ * Converts a bitboard back to a board (for the rule checks that work on
+ * boards, such as Renju's forbidden moves)
+ */
+export function toBoard(bitboard: BitBoard): Board {
+  const { width, height } = bitboard;
+  return Array.from({ length: height }, (_, row) =>
+    Array.from({ length: width }, (_, col) => {
+      const cell = toCellIndex(width, row, col);
+      const word = cell >>> 5;
+      const bit = 1 << (cell & 31);
+      return bitboard.blocked[word] & bit
+        ? BLOCKED_CELL
+        : getMarkAt(bitboard, cell);
+    })
+  );
+}
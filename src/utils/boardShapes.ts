@@ -0,0 +1,115 @@
+import { BoardShape } from "@/types/game";
+
+/**
+ * Board shape utilities for classic games
+ *
+ * A shape is a set of permanently blocked cells. Preset shapes are drawn
+ * from the board dimensions alone; the random shape scatters obstacles
+ * from a seed, so the same seed always gives the same layout.
+ */
+
+// Shapes that can be chosen in the UI
+export const BOARD_SHAPES: { value: BoardShape; label: string }[] = [
+  { value: "full", label: "Full" },
+  { value: "plus", label: "Plus" },
+  { value: "diamond", label: "Diamond" },
+  { value: "holes", label: "Holes" },
+  { value: "random", label: "Random" },
+];
+
+// Share of the cells blocked by the random shape
+const RANDOM_OBSTACLE_RATIO = 0.15;
+
+/**
+ * Creates a seeded pseudo-random generator (mulberry32)
+ * Returns numbers in [0, 1) like Math.random
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Creates a fresh seed for the random board shape
+ */
+export function createObstacleSeed(): number {
+  return Math.floor(Math.random() * 100000) + 1;
+}
+
+/**
+ * Checks if a cell is blocked by a preset shape
+ */
+function isBlockedByShape(
+  shape: BoardShape,
+  row: number,
+  col: number,
+  width: number,
+  height: number
+): boolean {
+  switch (shape) {
+    case "plus": {
+      // Cut a block out of each corner, leaving a cross of the middle thirds
+      const cutRows = Math.max(1, Math.floor(height / 3));
+      const cutCols = Math.max(1, Math.floor(width / 3));
+      const inCornerRows = row < cutRows || row >= height - cutRows;
+      const inCornerCols = col < cutCols || col >= width - cutCols;
+      return inCornerRows && inCornerCols;
+    }
+    case "diamond": {
+      // Keep the cells within a (scaled) Manhattan distance of the center
+      const rowDistance = Math.abs(2 * row - (height - 1)) / height;
+      const colDistance = Math.abs(2 * col - (width - 1)) / width;
+      return rowDistance + colDistance > 1;
+    }
+    case "holes": {
+      // Holes one cell in from each edge, every third cell, mirrored so
+      // the pattern is symmetric
+      const edgeRow = Math.min(row, height - 1 - row);
+      const edgeCol = Math.min(col, width - 1 - col);
+      return edgeRow % 3 === 1 && edgeCol % 3 === 1;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Gets the blocked cells of a board shape as [row, col] pairs
+ * @param seed - Seed for the random shape (ignored by the preset shapes)
+ */
+export function getBlockedCells(
+  width: number,
+  height: number,
+  shape: BoardShape,
+  seed: number
+): [number, number][] {
+  const cells: [number, number][] = [];
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      cells.push([row, col]);
+    }
+  }
+
+  if (shape === "random") {
+    // Seeded Fisher-Yates shuffle, then block the first few cells
+    const random = createSeededRandom(seed);
+    for (let i = cells.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [cells[i], cells[j]] = [cells[j], cells[i]];
+    }
+    const count = Math.max(1, Math.round(cells.length * RANDOM_OBSTACLE_RATIO));
+    return cells
+      .slice(0, count)
+      .sort(([rowA, colA], [rowB, colB]) => rowA - rowB || colA - colB);
+  }
+
+  return cells.filter(([row, col]) =>
+    isBlockedByShape(shape, row, col, width, height)
+  );
+}
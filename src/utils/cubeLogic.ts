@@ -0,0 +1,231 @@
+import {
+  Cube,
+  CubePosition,
+  CubeSize,
+  CubeWinningLine,
+  Move,
+  Player,
+} from "@/types/game";
+import { cloneBoard, createEmptyBoard, isPlayerMark } from "@/utils/gameLogic";
+
+/**
+ * Game logic utilities for 3D tic-tac-toe (Qubic)
+ *
+ * The cube is a stack of square layers indexed [layer][row][col]. A full
+ * line of `size` cells wins in any of the 13 directions through the cube:
+ * rows, columns and pillars, the diagonals of every plane, and the four
+ * space diagonals joining opposite corners.
+ */
+
+// Cube sizes that can be chosen in the UI
+export const CUBE_SIZES: CubeSize[] = [3, 4];
+
+// Winning lines only depend on the cube size, so build them once per size
+const winningLinesCache = new Map<number, CubeWinningLine[]>();
+
+/**
+ * Generates all winning lines of a cube
+ * 3x3x3 has 49 lines and 4x4x4 has 76
+ */
+export function generateCubeWinningLines(size: CubeSize): CubeWinningLine[] {
+  const cached = winningLinesCache.get(size);
+  if (cached) return cached;
+
+  const lines: CubeWinningLine[] = [];
+  const last = size - 1;
+
+  // One direction of each opposite pair: the first non-zero step is +1
+  const directions: CubePosition[] = [];
+  for (let dl = -1; dl <= 1; dl++) {
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -1; dc <= 1; dc++) {
+        const first = dl !== 0 ? dl : dr !== 0 ? dr : dc;
+        if (first === 1) {
+          directions.push([dl, dr, dc]);
+        }
+      }
+    }
+  }
+
+  for (const [dl, dr, dc] of directions) {
+    for (let layer = 0; layer < size; layer++) {
+      for (let row = 0; row < size; row++) {
+        for (let col = 0; col < size; col++) {
+          const endLayer = layer + dl * last;
+          const endRow = row + dr * last;
+          const endCol = col + dc * last;
+          if (
+            endLayer < 0 ||
+            endLayer > last ||
+            endRow < 0 ||
+            endRow > last ||
+            endCol < 0 ||
+            endCol > last
+          ) {
+            continue;
+          }
+
+          const line: CubeWinningLine = [];
+          for (let i = 0; i < size; i++) {
+            line.push([layer + dl * i, row + dr * i, col + dc * i]);
+          }
+          lines.push(line);
+        }
+      }
+    }
+  }
+
+  winningLinesCache.set(size, lines);
+  return lines;
+}
+
+/**
+ * Creates an empty cube with the specified edge length
+ */
+export function createEmptyCube(size: CubeSize): Cube {
+  return Array(size)
+    .fill(null)
+    .map(() => createEmptyBoard(size));
+}
+
+/**
+ * Creates a deep copy of the cube
+ */
+export function cloneCube(cube: Cube): Cube {
+  return cube.map(cloneBoard);
+}
+
+/**
+ * Gets the edge length of a cube
+ */
+export function getCubeSize(cube: Cube): CubeSize {
+  return cube.length as CubeSize;
+}
+
+/**
+ * Checks if a cell is valid and empty
+ */
+export function isValidCubeMove(
+  cube: Cube,
+  layer: number,
+  row: number,
+  col: number
+): boolean {
+  const size = getCubeSize(cube);
+  return (
+    layer >= 0 &&
+    layer < size &&
+    row >= 0 &&
+    row < size &&
+    col >= 0 &&
+    col < size &&
+    cube[layer][row][col] === null
+  );
+}
+
+/**
+ * Makes a move in the cube (returns new cube, doesn't mutate)
+ */
+export function makeCubeMove(
+  cube: Cube,
+  layer: number,
+  row: number,
+  col: number,
+  player: Player
+): Cube {
+  if (!isValidCubeMove(cube, layer, row, col)) {
+    throw new Error(
+      `Invalid move: position [${layer}, ${row}, ${col}] is not available`
+    );
+  }
+
+  const newCube = cloneCube(cube);
+  newCube[layer][row][col] = player;
+  return newCube;
+}
+
+/**
+ * Gets all available moves in the cube
+ */
+export function getCubeAvailableMoves(cube: Cube): Move[] {
+  const moves: Move[] = [];
+
+  cube.forEach((board, layer) =>
+    board.forEach((cells, row) =>
+      cells.forEach((cell, col) => {
+        if (cell === null) {
+          moves.push({ layer, row, col });
+        }
+      })
+    )
+  );
+
+  return moves;
+}
+
+/**
+ * Checks if there's a winner and returns the winning line
+ */
+export function checkCubeWinner(cube: Cube): {
+  winner: Player | null;
+  winningLine: CubeWinningLine | null;
+} {
+  for (const line of generateCubeWinningLines(getCubeSize(cube))) {
+    const [layer, row, col] = line[0];
+    const firstCell = cube[layer][row][col];
+
+    if (
+      isPlayerMark(firstCell) &&
+      line.every(([l, r, c]) => cube[l][r][c] === firstCell)
+    ) {
+      return { winner: firstCell, winningLine: line };
+    }
+  }
+
+  return { winner: null, winningLine: null };
+}
+
+/**
+ * Checks if every cell of the cube is taken (draw condition)
+ */
+export function isCubeFull(cube: Cube): boolean {
+  return cube.every((board) =>
+    board.every((cells) => cells.every((cell) => cell !== null))
+  );
+}
+
+/**
+ * Checks if the game is over (win or draw)
+ */
+export function isCubeGameOver(cube: Cube): boolean {
+  return checkCubeWinner(cube).winner !== null || isCubeFull(cube);
+}
+
+/**
+ * Checks if a cell is part of the winning line
+ */
+export function isCubeWinningPosition(
+  layer: number,
+  row: number,
+  col: number,
+  winningLine: CubeWinningLine | null
+): boolean {
+  if (!winningLine) return false;
+
+  return winningLine.some(([l, r, c]) => l === layer && r === row && c === col);
+}
+
+/**
+ * Counts a player's marks in a line
+ */
+export function countSymbolsInCubeLine(
+  cube: Cube,
+  line: CubeWinningLine,
+  player: Player
+): number {
+  return line.reduce(
+    (count, [layer, row, col]) =>
+      count + (cube[layer][row][col] === player ? 1 : 0),
+    0
+  );
+}
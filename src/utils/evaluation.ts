@@ -0,0 +1,127 @@
+import { GameRules, Player } from "@/types/game";
+import { getOpponent } from "@/utils/gameLogic";
+import {
+  BitBoard,
+  countLineMarks,
+  isCellEmpty,
+  isLineBlocked,
+  toCellIndex,
+} from "@/utils/bitboard";
+
+/**
+ * Positional evaluation for depth-limited search
+ *
+ * A search cut off before the game ends needs a score for the positions
+ * it stops at. Every line still winnable for a side - none of the other
+ * side's marks or blocked cells in it - counts for that side: a little
+ * for being open, more for each mark already in it (squared, so two marks
+ * count four times one), and a lot when it is one mark short of complete
+ * (a threat). Threats at two different cells can't both be blocked with
+ * one move, so a side with two or more of them gets a bonus on top.
+ *
+ * The AI's lines and its opponent's have separate weights, so the AI can
+ * be tuned to attack or to defend. Scores are from the AI's side and stay
+ * within MAX_EVALUATION, well below the score of a won game: a real win
+ * always outweighs a promising position.
+ */
+
+// Worth of a side's lines
+export interface LineWeights {
+  openLine: number; // Each line still free of the other side's marks
+  partialLine: number; // Each such line, times the square of its marks
+  threat: number; // Each line one mark short of complete
+  doubleThreat: number; // Threats at two or more different cells
+}
+
+// Weights for the AI's own lines and for its opponent's
+export interface EvaluationWeights {
+  own: LineWeights;
+  opponent: LineWeights;
+}
+
+export const DEFAULT_EVALUATION_WEIGHTS: EvaluationWeights = {
+  own: { openLine: 1, partialLine: 4, threat: 30, doubleThreat: 120 },
+  opponent: { openLine: 1, partialLine: 4, threat: 30, doubleThreat: 120 },
+};
+
+// Largest score an evaluation gives either way
+export const MAX_EVALUATION = 500;
+
+// Score of a won classic game, less one for each ply it takes to win
+// (kept well above any positional evaluation)
+export const CLASSIC_WIN_SCORE = 1000;
+
+// Scores from which a position counts as winning: a won game, or one the
+// evaluation rates like a double threat
+export const WINNING_EVALUATION = 100;
+
+/**
+ * Evaluates a position from the AI's side (0 in wild games, where the
+ * marks in a line don't say whose it is)
+ * Under misère rules lines are liabilities, so the score is turned around.
+ */
+export function evaluatePosition(
+  bitboard: BitBoard,
+  aiPlayer: Player,
+  rules: GameRules,
+  weights: EvaluationWeights = DEFAULT_EVALUATION_WEIGHTS
+): number {
+  if (rules.wild) return 0;
+
+  const opponent = getOpponent(aiPlayer);
+  const { lines } = bitboard.lineMasks;
+  const ownThreats = new Set<number>();
+  const opposingThreats = new Set<number>();
+  let score = 0;
+
+  for (let line = 0; line < lines.length; line++) {
+    if (isLineBlocked(bitboard, line)) continue;
+
+    const own = countLineMarks(bitboard, line, aiPlayer);
+    const opposing = countLineMarks(bitboard, line, opponent);
+    if (own > 0 && opposing > 0) continue; // No longer winnable for either
+
+    const length = lines[line].length;
+    if (opposing === 0) {
+      score += scoreLine(own, length, weights.own);
+      if (own === length - 1) {
+        ownThreats.add(findEmptyCell(bitboard, line));
+      }
+    }
+    if (own === 0) {
+      score -= scoreLine(opposing, length, weights.opponent);
+      if (opposing === length - 1) {
+        opposingThreats.add(findEmptyCell(bitboard, line));
+      }
+    }
+  }
+
+  if (ownThreats.size > 1) score += weights.own.doubleThreat;
+  if (opposingThreats.size > 1) score -= weights.opponent.doubleThreat;
+
+  const bounded = Math.max(-MAX_EVALUATION, Math.min(MAX_EVALUATION, score));
+  return rules.misere ? -bounded : bounded;
+}
+
+/**
+ * Scores a line holding only one side's marks for that side
+ */
+function scoreLine(
+  marks: number,
+  length: number,
+  weights: LineWeights
+): number {
+  if (marks === length - 1) return weights.openLine + weights.threat;
+  return weights.openLine + weights.partialLine * marks * marks;
+}
+
+/**
+ * Finds the empty cell of a line one mark short of complete
+ */
+function findEmptyCell(bitboard: BitBoard, line: number): number {
+  for (const [row, col] of bitboard.lineMasks.lines[line]) {
+    const cell = toCellIndex(bitboard.width, row, col);
+    if (isCellEmpty(bitboard, cell)) return cell;
+  }
+  return -1;
+}
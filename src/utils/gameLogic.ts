@@ -1,49 +1,210 @@
-import { Board, Player, WinningLine, Move, BoardSize } from "@/types/game";
+import {
+  Board,
+  Player,
+  WinningLine,
+  Move,
+  BoardSize,
+  GameRules,
+  LineStats,
+  Mark,
+  Cell,
+  PLAYER_X,
+  PLAYER_O,
+  BLOCKED_CELL,
+  PLAYER_SYMBOLS,
+} from "@/types/game";
 
 /**
  * Game logic utilities for TicTacToe with dynamic board sizes
  */
 
+// Lines run along rows, columns and both diagonals
+const LINE_DIRECTIONS: [number, number][] = [
+  [0, 1], // Rows
+  [1, 0], // Columns
+  [1, 1], // Diagonals (top-left to bottom-right)
+  [1, -1], // Anti-diagonals (top-right to bottom-left)
+];
+
+// Renju restrictions apply to the first player only
+export const RENJU_RESTRICTED_PLAYER: Player = PLAYER_X;
+
 /**
  * Generates all possible winning combinations for a given board size
- * @param size - Board size (3 for 3x3, 4 for 4x4, etc.)
+ * @param width - Number of columns (3 for 3x3, 4 for 4x4, etc.)
+ * @param height - Number of rows (defaults to a square board)
+ * @param winLength - Marks in a row needed to win (defaults to a full line
+ * along the shorter side)
+ * @param toroidal - Lines wrap around the edges (right to left, bottom to
+ * top); cells are listed in line order, so a wrapped line jumps an edge
+ * @param blockedCells - Cells of a shaped board that break every line
+ * through them
  */
-export function generateWinningCombinations(size: BoardSize): WinningLine[] {
+export function generateWinningCombinations(
+  width: BoardSize,
+  height: BoardSize = width,
+  winLength: number = getDefaultWinLength(width, height),
+  toroidal: boolean = false,
+  blockedCells: [number, number][] = []
+): WinningLine[] {
   const combinations: WinningLine[] = [];
+  const length = clampWinLength(winLength, width, height);
+  const seenLines = new Set<string>();
+  const blocked = new Set(blockedCells.map(([row, col]) => row * width + col));
+  const isOpenLine = (line: WinningLine) =>
+    line.every(([row, col]) => !blocked.has(row * width + col));
 
-  // Rows
-  for (let row = 0; row < size; row++) {
-    const line: [number, number][] = [];
-    for (let col = 0; col < size; col++) {
-      line.push([row, col]);
-    }
-    combinations.push(line);
-  }
+  // Every window of `length` cells along rows, columns and both diagonals
+  for (const [rowStep, colStep] of LINE_DIRECTIONS) {
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        if (toroidal) {
+          const line: [number, number][] = [];
+          for (let i = 0; i < length; i++) {
+            line.push([
+              (row + rowStep * i + height) % height,
+              (col + colStep * i + width) % width,
+            ]);
+          }
+
+          // Skip lines that wrap onto themselves, and rotations of a full
+          // wrapped line that were already added from another start cell
+          const key = line
+            .map(([r, c]) => r * width + c)
+            .sort((a, b) => a - b)
+            .join(",");
+          if (new Set(key.split(",")).size < length || seenLines.has(key)) {
+            continue;
+          }
+          seenLines.add(key);
+          if (isOpenLine(line)) {
+            combinations.push(line);
+          }
+          continue;
+        }
+
+        const endRow = row + rowStep * (length - 1);
+        const endCol = col + colStep * (length - 1);
+        if (endRow < 0 || endRow >= height || endCol < 0 || endCol >= width) {
+          continue;
+        }
 
-  // Columns
-  for (let col = 0; col < size; col++) {
-    const line: [number, number][] = [];
-    for (let row = 0; row < size; row++) {
-      line.push([row, col]);
+        const line: [number, number][] = [];
+        for (let i = 0; i < length; i++) {
+          line.push([row + rowStep * i, col + colStep * i]);
+        }
+        if (isOpenLine(line)) {
+          combinations.push(line);
+        }
+      }
     }
-    combinations.push(line);
   }
 
-  // Main diagonal (top-left to bottom-right)
-  const mainDiagonal: [number, number][] = [];
-  for (let i = 0; i < size; i++) {
-    mainDiagonal.push([i, i]);
+  return combinations;
+}
+
+// Winning lines by board geometry and rules, so a search doesn't
+// regenerate them at every position
+const winningLinesCache = new Map<string, WinningLine[]>();
+
+/**
+ * Gets the winning lines for a board and rule set (generated once per
+ * geometry; the lines are shared, so they must not be modified)
+ */
+export function getWinningLines(
+  width: number,
+  height: number,
+  rules?: GameRules
+): WinningLine[] {
+  const key = [
+    width,
+    height,
+    rules?.winLength,
+    rules?.toroidal ?? false,
+    rules?.blockedCells?.map(([row, col]) => `${row},${col}`).join(";") ?? "",
+  ].join("|");
+
+  let lines = winningLinesCache.get(key);
+  if (!lines) {
+    lines = generateWinningCombinations(
+      width as BoardSize,
+      height as BoardSize,
+      rules?.winLength,
+      rules?.toroidal,
+      rules?.blockedCells
+    );
+    winningLinesCache.set(key, lines);
   }
-  combinations.push(mainDiagonal);
+  return lines;
+}
+
+// Lines through each cell, by the line list they index into
+const cellLinesCache = new WeakMap<WinningLine[], number[][]>();
 
-  // Anti-diagonal (top-right to bottom-left)
-  const antiDiagonal: [number, number][] = [];
-  for (let i = 0; i < size; i++) {
-    antiDiagonal.push([i, size - 1 - i]);
+/**
+ * Gets the indexes of the winning lines through each cell, by cell index
+ * (row * width + col); worked out once per line list
+ */
+export function getCellLines(
+  width: number,
+  height: number,
+  rules?: GameRules
+): number[][] {
+  const lines = getWinningLines(width, height, rules);
+  const cached = cellLinesCache.get(lines);
+  if (cached) {
+    return cached;
   }
-  combinations.push(antiDiagonal);
 
-  return combinations;
+  const cellLines: number[][] = Array.from(
+    { length: width * height },
+    () => []
+  );
+  lines.forEach((line, index) => {
+    for (const [row, col] of line) {
+      cellLines[row * width + col].push(index);
+    }
+  });
+  cellLinesCache.set(lines, cellLines);
+  return cellLines;
+}
+
+/**
+ * Keeps a win length within the playable range for a board size
+ * (at least 3 in a row, at most a full line along the longer side)
+ */
+export function clampWinLength(
+  winLength: number,
+  width: number,
+  height: number = width
+): number {
+  const longestLine = Math.max(width, height);
+  return Math.max(Math.min(3, longestLine), Math.min(winLength, longestLine));
+}
+
+/**
+ * Gets the win length a board plays to unless k-in-a-row sets another: a
+ * full line along the shorter side, so lines in every direction can win
+ */
+export function getDefaultWinLength(
+  width: number,
+  height: number = width
+): number {
+  return Math.min(width, height);
+}
+
+/**
+ * Gets the win lengths that can be chosen for a board size
+ */
+export function getWinLengthOptions(
+  width: BoardSize,
+  height: BoardSize = width
+): number[] {
+  const options: number[] = [];
+  for (let length = 3; length <= Math.max(width, height); length++) {
+    options.push(length);
+  }
+  return options;
 }
 
 // Legacy winning combinations for 3x3 board (kept for backward compatibility)
@@ -52,12 +213,36 @@ export const WINNING_COMBINATIONS: WinningLine[] =
 
 /**
  * Creates an empty board with the specified size
- * @param size - Board size (3 for 3x3, 4 for 4x4, etc.)
+ * @param width - Number of columns (3 for 3x3, 4 for 4x4, etc.)
+ * @param height - Number of rows (defaults to a square board)
+ * @param blockedCells - Cells blocked from the start (shaped boards)
  */
-export function createEmptyBoard(size: BoardSize = 3): Board {
-  return Array(size)
+export function createEmptyBoard(
+  width: BoardSize = 3,
+  height: BoardSize = width,
+  blockedCells: [number, number][] = []
+): Board {
+  const board: Board = Array(height)
     .fill(null)
-    .map(() => Array(size).fill(null));
+    .map(() => Array(width).fill(null));
+
+  for (const [row, col] of blockedCells) {
+    board[row][col] = BLOCKED_CELL;
+  }
+  return board;
+}
+
+/**
+ * Gets the width (columns) and height (rows) of a board
+ */
+export function getBoardDimensions(board: Board): {
+  width: BoardSize;
+  height: BoardSize;
+} {
+  return {
+    width: (board[0]?.length ?? 0) as BoardSize,
+    height: board.length as BoardSize,
+  };
 }
 
 /**
@@ -69,14 +254,54 @@ export function cloneBoard(board: Board): Board {
 
 /**
  * Checks if a cell is valid and empty
+ * With gravity only the lowest empty cell of a column can be played, and
+ * under Renju rules the first player can't take a forbidden cell
  */
-export function isValidMove(board: Board, row: number, col: number): boolean {
-  const size = board.length;
-  return (
-    row >= 0 && row < size && col >= 0 && col < size && board[row][col] === null
+export function isValidMove(
+  board: Board,
+  row: number,
+  col: number,
+  rules?: GameRules
+): boolean {
+  const { width, height } = getBoardDimensions(board);
+  const isEmptyCell =
+    row >= 0 &&
+    row < height &&
+    col >= 0 &&
+    col < width &&
+    board[row][col] === null;
+
+  if (!isEmptyCell) {
+    return false;
+  }
+  if (rules?.gravity && row < height - 1 && board[row + 1][col] === null) {
+    return false;
+  }
+
+  return !(
+    rules?.renju &&
+    getPlayerToMove(board) === RENJU_RESTRICTED_PLAYER &&
+    isForbiddenMove(board, row, col, rules)
   );
 }
 
+/**
+ * Gets the row a mark dropped into a column lands on (gravity mode)
+ * Returns null when the column is full or out of range
+ */
+export function getDropRow(board: Board, col: number): number | null {
+  const { width, height } = getBoardDimensions(board);
+  if (col < 0 || col >= width) return null;
+
+  for (let row = height - 1; row >= 0; row--) {
+    if (board[row][col] === null) {
+      return row;
+    }
+  }
+
+  return null;
+}
+
 /**
  * Makes a move on the board (returns new board, doesn't mutate)
  */
@@ -84,26 +309,143 @@ export function makeMove(
   board: Board,
   row: number,
   col: number,
-  player: Player
+  mark: Mark,
+  rules?: GameRules
 ): Board {
-  if (!isValidMove(board, row, col)) {
+  if (!isValidMove(board, row, col, rules)) {
     throw new Error(`Invalid move: position [${row}, ${col}] is not available`);
   }
 
   const newBoard = cloneBoard(board);
-  newBoard[row][col] = player;
+  newBoard[row][col] = mark;
   return newBoard;
 }
 
 /**
- * Gets all available moves on the board
+ * Gets the player who makes the next move (X always moves first)
+ */
+export function getNextMover(moves: Move[]): Player {
+  return moves.length % 2 === 0 ? PLAYER_X : PLAYER_O;
+}
+
+/**
+ * Gets a player's moves in the order they were made
+ */
+export function getPlayerMoves(moves: Move[], player: Player): Move[] {
+  return moves.filter(
+    (_, index) => (index % 2 === 0 ? PLAYER_X : PLAYER_O) === player
+  );
+}
+
+/**
+ * Gets the mark a player's next move removes (sliding games)
+ * Returns null when sliding is off or the player still has marks to spare
+ */
+export function getExpiringMark(
+  moves: Move[],
+  player: Player,
+  rules?: GameRules
+): Move | null {
+  if (!rules?.maxMarks) return null;
+
+  const playerMoves = getPlayerMoves(moves, player);
+  return playerMoves.length >= rules.maxMarks
+    ? playerMoves[playerMoves.length - rules.maxMarks]
+    : null;
+}
+
+/**
+ * Makes a move in a sliding game (returns new board, doesn't mutate)
+ * The new mark goes on an empty cell, then the player's oldest mark is
+ * removed once they are over their limit
+ * @param moves - Moves played so far, oldest first
  */
-export function getAvailableMoves(board: Board): Move[] {
+export function makeSlidingMove(
+  board: Board,
+  moves: Move[],
+  row: number,
+  col: number,
+  player: Player,
+  mark: Mark = player,
+  rules?: GameRules
+): Board {
+  const newBoard = makeMove(board, row, col, mark, rules);
+  const expiring = getExpiringMark(moves, player, rules);
+  if (expiring) {
+    newBoard[expiring.row][expiring.col] = null;
+  }
+  return newBoard;
+}
+
+/**
+ * Builds a key for a sliding position: the live marks of each player in
+ * the order they will be removed, plus the player to move
+ */
+export function getSlidingPositionKey(
+  moves: Move[],
+  rules?: GameRules
+): string {
+  const liveMarks = (player: Player) =>
+    getPlayerMoves(moves, player)
+      .slice(-(rules?.maxMarks ?? moves.length))
+      .map((move) => `${move.row},${move.col},${move.symbol ?? player}`)
+      .join(";");
+
+  return `${liveMarks(PLAYER_X)}|${liveMarks(PLAYER_O)}|${getNextMover(moves)}`;
+}
+
+/**
+ * Checks if the current sliding position has now occurred three times
+ * (the game is drawn by repetition)
+ */
+export function isRepetitionDraw(moves: Move[], rules?: GameRules): boolean {
+  if (!rules?.maxMarks) return false;
+
+  const currentKey = getSlidingPositionKey(moves, rules);
+  let occurrences = 0;
+  for (let length = 0; length <= moves.length; length++) {
+    if (getSlidingPositionKey(moves.slice(0, length), rules) === currentKey) {
+      occurrences++;
+    }
+  }
+  return occurrences >= 3;
+}
+
+/**
+ * Gets all available moves on the board (blocked cells are never empty)
+ * With gravity that is one drop per column that is not yet full; under
+ * Renju rules the first player's forbidden moves are left out
+ */
+export function getAvailableMoves(board: Board, rules?: GameRules): Move[] {
+  const moves = getOpenMoves(board, rules);
+  if (!rules?.renju || getPlayerToMove(board) !== RENJU_RESTRICTED_PLAYER) {
+    return moves;
+  }
+
+  return moves.filter(
+    ({ row, col }) => !isForbiddenMove(board, row, col, rules)
+  );
+}
+
+/**
+ * Gets the empty cells a mark can go in, whoever is placing it
+ */
+function getOpenMoves(board: Board, rules?: GameRules): Move[] {
   const moves: Move[] = [];
-  const size = board.length;
+  const { width, height } = getBoardDimensions(board);
+
+  if (rules?.gravity) {
+    for (let col = 0; col < width; col++) {
+      const row = getDropRow(board, col);
+      if (row !== null) {
+        moves.push({ row, col });
+      }
+    }
+    return moves;
+  }
 
-  for (let row = 0; row < size; row++) {
-    for (let col = 0; col < size; col++) {
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
       if (board[row][col] === null) {
         moves.push({ row, col });
       }
@@ -115,24 +457,43 @@ export function getAvailableMoves(board: Board): Move[] {
 
 /**
  * Checks if there's a winner and returns the winning line
+ * Under misère rules the player who completed the line loses, so the
+ * winner is their opponent and the returned line is the losing one
+ * @param rules - Rule set to apply (defaults to a full line on the board)
  */
-export function checkWinner(board: Board): {
+export function checkWinner(
+  board: Board,
+  rules?: GameRules
+): {
   winner: Player | null;
   winningLine: WinningLine | null;
 } {
-  const size = board.length;
-  const winningCombinations = generateWinningCombinations(size as BoardSize);
+  const { width, height } = getBoardDimensions(board);
+  const winningCombinations = getWinningLines(width, height, rules);
+
+  // Numerical games: a full line of numbers adding up to the target wins
+  // for whoever placed the last number
+  if (rules?.numberTarget) {
+    const winningLine = winningCombinations.find((combination) =>
+      isNumberLineComplete(board, combination, rules.numberTarget!)
+    );
+    if (!winningLine) {
+      return { winner: null, winningLine: null };
+    }
+
+    const lastMover = countMarks(board) % 2 === 1 ? PLAYER_X : PLAYER_O;
+    return {
+      winner: rules.misere ? getOpponent(lastMover) : lastMover,
+      winningLine,
+    };
+  }
 
   for (const combination of winningCombinations) {
-    // Check if all cells in the combination have the same non-null value
     const firstCell = board[combination[0][0]][combination[0][1]];
 
-    if (
-      firstCell &&
-      combination.every(([row, col]) => board[row][col] === firstCell)
-    ) {
+    if (isPlayerMark(firstCell) && isLineComplete(board, combination, rules)) {
       return {
-        winner: firstCell,
+        winner: rules?.misere ? getOpponent(firstCell) : firstCell,
         winningLine: combination,
       };
     }
@@ -144,8 +505,469 @@ export function checkWinner(board: Board): {
   };
 }
 
+/**
+ * Checks if a line is complete: the same symbol all along it, or in
+ * numerical games numbers adding up to the target
+ */
+function isLineComplete(
+  board: Board,
+  line: WinningLine,
+  rules?: GameRules
+): boolean {
+  if (rules?.numberTarget) {
+    return isNumberLineComplete(board, line, rules.numberTarget);
+  }
+
+  const firstCell = board[line[0][0]][line[0][1]];
+  return (
+    isPlayerMark(firstCell) &&
+    line.every(([row, col]) => board[row][col] === firstCell) &&
+    // Under Renju rules the first player needs exactly a full line
+    !(
+      rules?.renju &&
+      firstCell === RENJU_RESTRICTED_PLAYER &&
+      isOverline(board, line)
+    )
+  );
+}
+
+/**
+ * Counts a player's marks running on from a cell in one direction (the
+ * cell itself is not counted)
+ */
+export function countRun(
+  board: Board,
+  row: number,
+  col: number,
+  rowStep: number,
+  colStep: number,
+  player: Player
+): number {
+  let count = 0;
+  for (
+    let r = row + rowStep, c = col + colStep;
+    board[r]?.[c] === player;
+    r += rowStep, c += colStep
+  ) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Counts a player's marks in the unbroken run through a cell along one
+ * direction (the cell itself counts as theirs)
+ */
+export function getRunLength(
+  board: Board,
+  row: number,
+  col: number,
+  rowStep: number,
+  colStep: number,
+  player: Player
+): number {
+  return (
+    1 +
+    countRun(board, row, col, rowStep, colStep, player) +
+    countRun(board, row, col, -rowStep, -colStep, player)
+  );
+}
+
+/**
+ * Checks if a full line carries on past either end with more of the same
+ * player's marks (an overline)
+ */
+export function isOverline(board: Board, line: WinningLine): boolean {
+  const [[firstRow, firstCol], [nextRow, nextCol]] = line;
+  const [lastRow, lastCol] = line[line.length - 1];
+  const player = board[firstRow][firstCol];
+  if (!isPlayerMark(player)) {
+    return false;
+  }
+
+  const rowStep = nextRow - firstRow;
+  const colStep = nextCol - firstCol;
+  return (
+    countRun(board, firstRow, firstCol, -rowStep, -colStep, player) > 0 ||
+    countRun(board, lastRow, lastCol, rowStep, colStep, player) > 0
+  );
+}
+
+/**
+ * Checks if a cell holds a player's symbol (rather than a number, a
+ * blocked cell or nothing)
+ */
+export function isPlayerMark(cell: Cell): cell is Player {
+  return PLAYER_SYMBOLS.some((symbol) => symbol === cell);
+}
+
+/**
+ * Counts the marks on the board (blocked cells are not marks)
+ */
+export function countMarks(board: Board): number {
+  return board.reduce(
+    (count, row) =>
+      count +
+      row.filter((cell) => cell !== null && cell !== BLOCKED_CELL).length,
+    0
+  );
+}
+
+/**
+ * Gets the sum a line must reach in numerical games
+ * A line of k cells drawn from 1..N averages (N + 1) / 2 per cell, which
+ * gives the classic 15 on 3x3 and the magic constant on larger squares
+ */
+export function getNumberTarget(
+  width: number,
+  height: number,
+  winLength: number
+): number {
+  return Math.floor((winLength * (width * height + 1)) / 2);
+}
+
+/**
+ * Gets the player who owns a number (X places the odd numbers, O the even)
+ */
+export function getNumberOwner(value: number): Player {
+  return value % 2 === 1 ? PLAYER_X : PLAYER_O;
+}
+
+/**
+ * Gets the numbers a player still has to place (numerical games)
+ * Numbers run from 1 to the number of cells, each used once
+ */
+export function getAvailableNumbers(board: Board, player: Player): number[] {
+  const { width, height } = getBoardDimensions(board);
+  const used = new Set(board.flat().filter((cell) => typeof cell === "number"));
+  const numbers: number[] = [];
+
+  for (let value = 1; value <= width * height; value++) {
+    if (getNumberOwner(value) === player && !used.has(value)) {
+      numbers.push(value);
+    }
+  }
+  return numbers;
+}
+
+/**
+ * Checks if a line is full of numbers adding up to the target
+ */
+export function isNumberLineComplete(
+  board: Board,
+  line: WinningLine,
+  target: number
+): boolean {
+  let sum = 0;
+  for (const [row, col] of line) {
+    const cell = board[row][col];
+    if (typeof cell !== "number") return false;
+    sum += cell;
+  }
+  return sum === target;
+}
+
+/**
+ * Checks for a winner right after a move by the given player
+ * The mover is the one who completed any line, which matters in wild and
+ * numerical games where the marks on the line say nothing about who placed
+ * them
+ */
+export function checkWinnerAfterMove(
+  board: Board,
+  mover: Player,
+  rules?: GameRules
+): {
+  winner: Player | null;
+  winningLine: WinningLine | null;
+} {
+  const { winningLine } = checkWinner(board, rules);
+  if (!winningLine) {
+    return { winner: null, winningLine: null };
+  }
+
+  return {
+    winner: rules?.misere ? getOpponent(mover) : mover,
+    winningLine,
+  };
+}
+
+/**
+ * Checks for a winner after a move, looking only at the lines through the
+ * cell it was played in - no other line can have been completed by it
+ * Like checkWinnerAfterMove, the mover wins (loses under misère rules)
+ * whatever marks make up the line
+ */
+export function checkWinnerAtCell(
+  board: Board,
+  row: number,
+  col: number,
+  mover: Player,
+  rules?: GameRules
+): {
+  winner: Player | null;
+  winningLine: WinningLine | null;
+} {
+  const { width, height } = getBoardDimensions(board);
+  const lines = getWinningLines(width, height, rules);
+
+  for (const index of getCellLines(width, height, rules)[row * width + col]) {
+    if (isLineComplete(board, lines[index], rules)) {
+      return {
+        winner: rules?.misere ? getOpponent(mover) : mover,
+        winningLine: lines[index],
+      };
+    }
+  }
+
+  return { winner: null, winningLine: null };
+}
+
+/**
+ * Gets each player's line statistics: the lines they can still complete
+ * (nobody else has a mark on them) and their longest run of marks along a
+ * line. Numbers count for the player who owns them
+ */
+export function getLineStats(board: Board, rules?: GameRules): LineStats {
+  const { width, height } = getBoardDimensions(board);
+  const players = getPlayers(rules);
+  const stats: LineStats = {
+    openLines: { X: 0, O: 0, Δ: 0, "□": 0 },
+    longestRun: { X: 0, O: 0, Δ: 0, "□": 0 },
+  };
+
+  for (const line of getWinningLines(width, height, rules)) {
+    const owners = new Set<Player>();
+    let runOwner: Player | null = null;
+    let run = 0;
+
+    for (const [row, col] of line) {
+      const cell = board[row][col];
+      const owner = isPlayerMark(cell)
+        ? cell
+        : typeof cell === "number"
+        ? getNumberOwner(cell)
+        : null;
+
+      run = owner === null ? 0 : owner === runOwner ? run + 1 : 1;
+      runOwner = owner;
+      if (owner) {
+        owners.add(owner);
+        stats.longestRun[owner] = Math.max(stats.longestRun[owner], run);
+      }
+    }
+
+    for (const player of players) {
+      if ([...owners].every((owner) => owner === player)) {
+        stats.openLines[player]++;
+      }
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Checks the outcome of a move from the lines through its cell, along
+ * with each player's line statistics afterwards
+ */
+export function checkLastMove(
+  board: Board,
+  row: number,
+  col: number,
+  mover: Player,
+  rules?: GameRules
+): {
+  winner: Player | null;
+  winningLine: WinningLine | null;
+  lineStats: LineStats;
+} {
+  return {
+    ...checkWinnerAtCell(board, row, col, mover, rules),
+    lineStats: getLineStats(board, rules),
+  };
+}
+
+/**
+ * Gets the player whose turn it is from the marks on the board (X moves
+ * first and nobody passes)
+ */
+function getPlayerToMove(board: Board): Player {
+  return countMarks(board) % 2 === 0 ? PLAYER_X : PLAYER_O;
+}
+
+/**
+ * Gets the empty cells along a direction where one more mark would give
+ * the player exactly a full line through a cell, as offsets from it
+ * The board is changed while checking and restored afterwards
+ */
+function getLineCompletions(
+  board: Board,
+  row: number,
+  col: number,
+  [rowStep, colStep]: [number, number],
+  player: Player,
+  winLength: number
+): number[] {
+  const completions: number[] = [];
+
+  for (let offset = 1 - winLength; offset < winLength; offset++) {
+    const r = row + rowStep * offset;
+    const c = col + colStep * offset;
+    if (offset === 0 || board[r]?.[c] !== null) continue;
+
+    board[r][c] = player;
+    if (getRunLength(board, row, col, rowStep, colStep, player) === winLength) {
+      completions.push(offset);
+    }
+    board[r][c] = null;
+  }
+
+  return completions;
+}
+
+/**
+ * Counts the fours through a cell along a direction: each cell that
+ * completes a line is a separate four, except the two ends of a straight
+ * four (an unbroken run one short of a line with both ends open)
+ */
+function countFours(completions: number[], winLength: number): number {
+  return completions.length === 2 &&
+    Math.abs(completions[0] - completions[1]) === winLength
+    ? 1
+    : completions.length;
+}
+
+/**
+ * Checks for an open three through a cell along a direction: one more
+ * mark there would make a straight four
+ * The board is changed while checking and restored afterwards
+ */
+function hasOpenThree(
+  board: Board,
+  row: number,
+  col: number,
+  direction: [number, number],
+  player: Player,
+  winLength: number
+): boolean {
+  const [rowStep, colStep] = direction;
+
+  for (let offset = 1 - winLength; offset < winLength; offset++) {
+    const r = row + rowStep * offset;
+    const c = col + colStep * offset;
+    if (offset === 0 || board[r]?.[c] !== null) continue;
+
+    board[r][c] = player;
+    const completions = getLineCompletions(
+      board,
+      row,
+      col,
+      direction,
+      player,
+      winLength
+    );
+    board[r][c] = null;
+
+    if (completions.length === 2 && countFours(completions, winLength) === 1) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Checks if a move is forbidden for the first player under Renju rules:
+ * it makes two fours or two open threes at once
+ * A move completing exactly a full line is never forbidden. A three
+ * counts whenever one more mark makes it a straight four, without
+ * checking that the mark would be allowed in turn, and an overline is
+ * allowed but doesn't win
+ */
+export function isForbiddenMove(
+  board: Board,
+  row: number,
+  col: number,
+  rules?: GameRules
+): boolean {
+  if (!rules?.renju || board[row]?.[col] !== null) {
+    return false;
+  }
+
+  const player = RENJU_RESTRICTED_PLAYER;
+  const { winLength } = rules;
+  const testBoard = cloneBoard(board);
+  testBoard[row][col] = player;
+
+  // A three needs two more of the player's marks within reach of the
+  // cell, and two fours on a single line need at least a four's worth, so
+  // most cells are ruled out here
+  const nearbyMarks = LINE_DIRECTIONS.map(([rowStep, colStep]) => {
+    let marks = 0;
+    for (let offset = 1 - winLength; offset < winLength; offset++) {
+      const r = row + rowStep * offset;
+      const c = col + colStep * offset;
+      if (offset !== 0 && testBoard[r]?.[c] === player) marks++;
+    }
+    return marks;
+  });
+  const busyDirections = LINE_DIRECTIONS.filter(
+    (_, index) => nearbyMarks[index] >= winLength - 3
+  );
+  if (
+    busyDirections.length < 2 &&
+    !nearbyMarks.some((marks) => marks >= winLength - 2)
+  ) {
+    return false;
+  }
+
+  if (
+    LINE_DIRECTIONS.some(
+      ([rowStep, colStep]) =>
+        getRunLength(testBoard, row, col, rowStep, colStep, player) ===
+        winLength
+    )
+  ) {
+    return false;
+  }
+
+  let fours = 0;
+  let threes = 0;
+  for (const direction of busyDirections) {
+    const directionFours = countFours(
+      getLineCompletions(testBoard, row, col, direction, player, winLength),
+      winLength
+    );
+    fours += directionFours;
+    if (
+      directionFours === 0 &&
+      hasOpenThree(testBoard, row, col, direction, player, winLength)
+    ) {
+      threes++;
+    }
+  }
+
+  return fours >= 2 || threes >= 2;
+}
+
+/**
+ * Gets the moves the first player can't make under Renju rules (none
+ * unless it is their turn)
+ */
+export function getForbiddenMoves(board: Board, rules?: GameRules): Move[] {
+  if (!rules?.renju || getPlayerToMove(board) !== RENJU_RESTRICTED_PLAYER) {
+    return [];
+  }
+
+  return getOpenMoves(board, rules).filter(({ row, col }) =>
+    isForbiddenMove(board, row, col, rules)
+  );
+}
+
 /**
  * Checks if the board is full (draw condition)
+ * Blocked cells count as filled, so shaped boards fill up too
  */
 export function isBoardFull(board: Board): boolean {
   return board.every((row) => row.every((cell) => cell !== null));
@@ -154,28 +976,51 @@ export function isBoardFull(board: Board): boolean {
 /**
  * Checks if the game is over (win or draw)
  */
-export function isGameOver(board: Board): boolean {
-  const { winner } = checkWinner(board);
+export function isGameOver(board: Board, rules?: GameRules): boolean {
+  const { winner } = checkWinner(board, rules);
   return winner !== null || isBoardFull(board);
 }
 
 /**
- * Gets the opposite player
+ * Gets the opposite player in a two-player game
  */
 export function getOpponent(player: Player): Player {
   return player === "X" ? "O" : "X";
 }
 
+/**
+ * Gets the players of a game in turn order
+ */
+export function getPlayers(rules?: GameRules): Player[] {
+  return PLAYER_SYMBOLS.slice(0, rules?.playerCount ?? 2);
+}
+
+/**
+ * Gets the player who moves after the given one
+ */
+export function getNextPlayer(player: Player, rules?: GameRules): Player {
+  const players = getPlayers(rules);
+  return players[(players.indexOf(player) + 1) % players.length];
+}
+
 /**
  * Evaluates the board for a specific player (used in minimax)
  * Returns: 10 for win, -10 for loss, 0 for draw/ongoing
+ * @param lastMover - Player who made the last move (needed in wild games)
  */
-export function evaluateBoard(board: Board, maximizingPlayer: Player): number {
-  const { winner } = checkWinner(board);
+export function evaluateBoard(
+  board: Board,
+  maximizingPlayer: Player,
+  rules?: GameRules,
+  lastMover?: Player
+): number {
+  const { winner } = lastMover
+    ? checkWinnerAfterMove(board, lastMover, rules)
+    : checkWinner(board, rules);
 
   if (winner === maximizingPlayer) {
     return 10;
-  } else if (winner === getOpponent(maximizingPlayer)) {
+  } else if (winner !== null) {
     return -10;
   } else {
     return 0; // Draw or game ongoing
@@ -185,8 +1030,8 @@ export function evaluateBoard(board: Board, maximizingPlayer: Player): number {
 /**
  * Gets a random move from available moves (for easy AI)
  */
-export function getRandomMove(board: Board): Move | null {
-  const availableMoves = getAvailableMoves(board);
+export function getRandomMove(board: Board, rules?: GameRules): Move | null {
+  const availableMoves = getAvailableMoves(board, rules);
 
   if (availableMoves.length === 0) {
     return null;
@@ -225,6 +1070,18 @@ export function isWinningPosition(
   return winningLine.some(([r, c]) => r === row && c === col);
 }
 
+/**
+ * Checks if a line wraps around an edge of the board (toroidal games)
+ */
+export function isWrappedLine(line: WinningLine): boolean {
+  return line.some(
+    ([row, col], index) =>
+      index > 0 &&
+      (Math.abs(row - line[index - 1][0]) > 1 ||
+        Math.abs(col - line[index - 1][1]) > 1)
+  );
+}
+
 /**
  * Counts the number of symbols in a line
  */
@@ -248,41 +1105,51 @@ export function isLineEmpty(board: Board, line: WinningLine): boolean {
 /**
  * Gets the center position of the board
  */
-export function getCenterPosition(boardSize: BoardSize = 3): Move {
-  const center = Math.floor(boardSize / 2);
-  return { row: center, col: center };
+export function getCenterPosition(
+  width: BoardSize = 3,
+  height: BoardSize = width
+): Move {
+  return { row: Math.floor(height / 2), col: Math.floor(width / 2) };
 }
 
 /**
  * Gets corner positions
  */
-export function getCornerPositions(boardSize: BoardSize = 3): Move[] {
-  const lastIndex = boardSize - 1;
+export function getCornerPositions(
+  width: BoardSize = 3,
+  height: BoardSize = width
+): Move[] {
+  const lastRow = height - 1;
+  const lastCol = width - 1;
   return [
     { row: 0, col: 0 },
-    { row: 0, col: lastIndex },
-    { row: lastIndex, col: 0 },
-    { row: lastIndex, col: lastIndex },
+    { row: 0, col: lastCol },
+    { row: lastRow, col: 0 },
+    { row: lastRow, col: lastCol },
   ];
 }
 
 /**
  * Gets edge positions (not corners or center)
  */
-export function getEdgePositions(boardSize: BoardSize = 3): Move[] {
+export function getEdgePositions(
+  width: BoardSize = 3,
+  height: BoardSize = width
+): Move[] {
   const edges: Move[] = [];
-  const lastIndex = boardSize - 1;
+  const lastRow = height - 1;
+  const lastCol = width - 1;
 
   // Top and bottom edges (excluding corners)
-  for (let col = 1; col < lastIndex; col++) {
+  for (let col = 1; col < lastCol; col++) {
     edges.push({ row: 0, col });
-    edges.push({ row: lastIndex, col });
+    edges.push({ row: lastRow, col });
   }
 
   // Left and right edges (excluding corners)
-  for (let row = 1; row < lastIndex; row++) {
+  for (let row = 1; row < lastRow; row++) {
     edges.push({ row, col: 0 });
-    edges.push({ row, col: lastIndex });
+    edges.push({ row, col: lastCol });
   }
 
   return edges;
@@ -0,0 +1,104 @@
+import {
+  GameRules,
+  OpeningChoice,
+  OpeningState,
+  Player,
+  SwapRule,
+  PLAYER_X,
+  PLAYER_O,
+} from "@/types/game";
+
+/**
+ * Opening protocols for two-player classic games
+ *
+ * Both protocols let one side lay down the first marks and the other pick
+ * which side to play, so the first player gains nothing from an unfair
+ * opening. Sides are named by the symbol they hold; taking the other side
+ * exchanges who controls X and O, while the marks stay where they are.
+ */
+
+// Protocols that can be chosen in the UI
+export const SWAP_RULES: { value: SwapRule; label: string }[] = [
+  { value: "none", label: "Off" },
+  { value: "pie", label: "Pie" },
+  { value: "swap2", label: "Swap2" },
+];
+
+// Swap2 lays down three marks at once, so it needs a Gomoku-sized board
+export const SWAP2_MIN_BOARD_SIZE = 7;
+
+/**
+ * Checks if the Swap2 opening fits a board size
+ */
+export function isSwap2Available(width: number, height: number): boolean {
+  return Math.min(width, height) >= SWAP2_MIN_BOARD_SIZE;
+}
+
+/**
+ * Gets the opening a new game starts with (null without a swap rule)
+ */
+export function createOpening(rules: GameRules): OpeningState | null {
+  switch (rules.swapRule) {
+    case "pie":
+      return {
+        marks: [PLAYER_X],
+        placer: PLAYER_X,
+        chooser: PLAYER_O,
+        choices: ["swap", "keep"],
+      };
+    case "swap2":
+      return {
+        marks: [PLAYER_X, PLAYER_O, PLAYER_X],
+        placer: PLAYER_X,
+        chooser: PLAYER_O,
+        choices: ["swap", "keep", "place-two"],
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Gets the opening once its next mark has been placed
+ */
+export function advanceOpening(opening: OpeningState): OpeningState {
+  return { ...opening, marks: opening.marks.slice(1) };
+}
+
+/**
+ * Gets the opening after a decision: Swap2's "place-two" hands the marks
+ * to the chooser and the decision back to the first player; anything else
+ * settles the opening (null)
+ */
+export function getOpeningAfterChoice(
+  opening: OpeningState,
+  choice: OpeningChoice
+): OpeningState | null {
+  if (choice !== "place-two") {
+    return null;
+  }
+
+  return {
+    marks: [PLAYER_O, PLAYER_X],
+    placer: opening.chooser,
+    chooser: opening.placer,
+    choices: ["swap", "keep"],
+  };
+}
+
+/**
+ * Describes an opening decision for the UI
+ */
+export function describeOpeningChoice(
+  choice: OpeningChoice,
+  chooser: Player
+): string {
+  switch (choice) {
+    case "swap":
+      return `Take ${chooser === PLAYER_X ? PLAYER_O : PLAYER_X}`;
+    case "keep":
+      return `Stay ${chooser}`;
+    case "place-two":
+      return "Place O and X";
+  }
+}
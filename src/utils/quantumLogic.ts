@@ -0,0 +1,356 @@
+import {
+  Board,
+  Move,
+  Player,
+  QuantumCell,
+  QuantumMark,
+  QuantumState,
+  WinningLine,
+} from "@/types/game";
+import { generateWinningCombinations } from "@/utils/gameLogic";
+
+/**
+ * Quantum tic-tac-toe logic
+ *
+ * Every move puts a spooky mark in two cells at once. Cells are the nodes
+ * of the entanglement graph and each move is an edge between its two
+ * cells, so a move joining cells that are already connected closes a
+ * cycle. The other player then collapses it by picking which of the two
+ * cells the closing mark lands in; every mark sharing a cell with a
+ * collapsed one is forced into its other cell, and so on through the
+ * cycle and everything hanging off it. Only classical (collapsed) marks
+ * count towards a line.
+ */
+
+export const QUANTUM_BOARD_SIZE = 3;
+
+// Lines of the quantum board (a full row, column or diagonal)
+const QUANTUM_LINES: WinningLine[] =
+  generateWinningCombinations(QUANTUM_BOARD_SIZE);
+
+// Subscript digits for move numbers
+const SUBSCRIPT_DIGITS = "₀₁₂₃₄₅₆₇₈₉";
+
+/**
+ * Creates an empty quantum game
+ */
+export function createEmptyQuantumState(
+  size: number = QUANTUM_BOARD_SIZE
+): QuantumState {
+  return {
+    cells: Array.from({ length: size }, () =>
+      Array.from({ length: size }, () => ({ classical: null, spooky: [] }))
+    ),
+    moveCount: 0,
+    pendingCollapse: null,
+  };
+}
+
+/**
+ * Creates a deep copy of a quantum game
+ */
+export function cloneQuantumState(quantum: QuantumState): QuantumState {
+  return {
+    cells: quantum.cells.map((row) =>
+      row.map((cell) => ({
+        classical: cell.classical,
+        spooky: [...cell.spooky],
+      }))
+    ),
+    moveCount: quantum.moveCount,
+    pendingCollapse: quantum.pendingCollapse,
+  };
+}
+
+/**
+ * Gets the classical marks as an ordinary board (spooky cells are empty)
+ */
+export function getClassicalBoard(quantum: QuantumState): Board {
+  return quantum.cells.map((row) =>
+    row.map((cell) => cell.classical?.player ?? null)
+  );
+}
+
+/**
+ * Formats a mark with its move number as a subscript, e.g. X₃
+ */
+export function formatQuantumMark(mark: QuantumMark): string {
+  const subscript = String(mark.move)
+    .split("")
+    .map((digit) => SUBSCRIPT_DIGITS[Number(digit)])
+    .join("");
+  return `${mark.player}${subscript}`;
+}
+
+/**
+ * Gets the cells holding the spooky halves of a move
+ */
+function getMarkCells(
+  cells: QuantumCell[][],
+  move: number
+): [number, number][] {
+  const found: [number, number][] = [];
+  cells.forEach((row, rowIndex) =>
+    row.forEach((cell, colIndex) => {
+      if (cell.spooky.some((mark) => mark.move === move)) {
+        found.push([rowIndex, colIndex]);
+      }
+    })
+  );
+  return found;
+}
+
+/**
+ * Finds a path of entangled cells from one cell to another (breadth
+ * first, so the path is as short as possible); null when they aren't
+ * connected
+ */
+export function findEntanglementPath(
+  cells: QuantumCell[][],
+  from: [number, number],
+  to: [number, number]
+): [number, number][] | null {
+  const key = ([row, col]: [number, number]) => `${row},${col}`;
+  const previous = new Map<string, [number, number] | null>([
+    [key(from), null],
+  ]);
+  const queue: [number, number][] = [from];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (key(current) === key(to)) {
+      const path: [number, number][] = [];
+      for (
+        let cell: [number, number] | null = current;
+        cell;
+        cell = previous.get(key(cell)) ?? null
+      ) {
+        path.unshift(cell);
+      }
+      return path;
+    }
+
+    const [row, col] = current;
+    for (const mark of cells[row][col].spooky) {
+      for (const next of getMarkCells(cells, mark.move)) {
+        if (!previous.has(key(next))) {
+          previous.set(key(next), current);
+          queue.push(next);
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks if a cell can still take spooky marks (it hasn't collapsed)
+ */
+export function isQuantumCellOpen(
+  quantum: QuantumState,
+  row: number,
+  col: number
+): boolean {
+  return quantum.cells[row]?.[col]?.classical === null;
+}
+
+/**
+ * Gets the cells that haven't collapsed yet
+ */
+export function getOpenCells(quantum: QuantumState): [number, number][] {
+  const open: [number, number][] = [];
+  quantum.cells.forEach((row, rowIndex) =>
+    row.forEach((_, colIndex) => {
+      if (isQuantumCellOpen(quantum, rowIndex, colIndex)) {
+        open.push([rowIndex, colIndex]);
+      }
+    })
+  );
+  return open;
+}
+
+/**
+ * Gets every legal move: the two ways to resolve a pending collapse, or
+ * else each pair of open cells - with a single open cell left the last
+ * mark is placed there classically
+ */
+export function getQuantumAvailableMoves(quantum: QuantumState): Move[] {
+  if (checkQuantumWinner(quantum).winner) {
+    return [];
+  }
+
+  if (quantum.pendingCollapse) {
+    return quantum.pendingCollapse.cells.map(([row, col]) => ({
+      row,
+      col,
+      collapse: true,
+    }));
+  }
+
+  const open = getOpenCells(quantum);
+  if (open.length === 1) {
+    return [{ row: open[0][0], col: open[0][1] }];
+  }
+
+  const moves: Move[] = [];
+  for (let i = 0; i < open.length; i++) {
+    for (let j = i + 1; j < open.length; j++) {
+      moves.push({ row: open[i][0], col: open[i][1], pair: open[j] });
+    }
+  }
+  return moves;
+}
+
+/**
+ * Checks if a move is legal in the current quantum game
+ */
+export function isValidQuantumMove(quantum: QuantumState, move: Move): boolean {
+  const { row, col, pair, collapse } = move;
+
+  if (quantum.pendingCollapse) {
+    return (
+      collapse === true &&
+      quantum.pendingCollapse.cells.some(([r, c]) => r === row && c === col)
+    );
+  }
+  if (collapse || !isQuantumCellOpen(quantum, row, col)) {
+    return false;
+  }
+  if (!pair) {
+    return getOpenCells(quantum).length === 1;
+  }
+
+  const [pairRow, pairCol] = pair;
+  return (
+    (pairRow !== row || pairCol !== col) &&
+    isQuantumCellOpen(quantum, pairRow, pairCol)
+  );
+}
+
+/**
+ * Collapses a mark into a cell, pushing the other marks there into their
+ * other cells in turn
+ */
+function collapseMark(
+  cells: QuantumCell[][],
+  move: number,
+  row: number,
+  col: number
+): void {
+  const cell = cells[row][col];
+  const mark = cell.spooky.find((spooky) => spooky.move === move);
+  if (!mark) return;
+
+  const displaced = cell.spooky.filter((spooky) => spooky.move !== move);
+  cell.classical = mark;
+  cell.spooky = [];
+
+  // The mark's other half disappears
+  for (const [r, c] of getMarkCells(cells, move)) {
+    cells[r][c].spooky = cells[r][c].spooky.filter(
+      (spooky) => spooky.move !== move
+    );
+  }
+
+  for (const other of displaced) {
+    const [target] = getMarkCells(cells, other.move);
+    if (target) {
+      collapseMark(cells, other.move, target[0], target[1]);
+    }
+  }
+}
+
+/**
+ * Plays a move and returns the new quantum game (the original is not
+ * modified)
+ * Throws if the move is not legal
+ * @param move - A spooky mark (row/col plus pair), a collapse choice, or
+ * the final classical mark when a single cell is left
+ */
+export function makeQuantumMove(
+  quantum: QuantumState,
+  move: Move,
+  player: Player
+): QuantumState {
+  if (!isValidQuantumMove(quantum, move)) {
+    throw new Error(
+      `Invalid quantum move at position [${move.row}, ${move.col}]`
+    );
+  }
+
+  const next = cloneQuantumState(quantum);
+  const { row, col, pair } = move;
+
+  if (quantum.pendingCollapse) {
+    collapseMark(next.cells, quantum.pendingCollapse.mark.move, row, col);
+    next.pendingCollapse = null;
+    return next;
+  }
+
+  const mark: QuantumMark = { player, move: quantum.moveCount + 1 };
+  next.moveCount = mark.move;
+
+  if (!pair) {
+    next.cells[row][col].classical = mark;
+    return next;
+  }
+
+  // A path between the two cells plus this move makes a cycle
+  const cycle = findEntanglementPath(next.cells, [row, col], pair);
+  next.cells[row][col].spooky.push(mark);
+  next.cells[pair[0]][pair[1]].spooky.push(mark);
+
+  if (cycle) {
+    next.pendingCollapse = {
+      mark,
+      cells: [[row, col], pair],
+      cycle,
+    };
+  }
+
+  return next;
+}
+
+/**
+ * Checks for a line of classical marks
+ * A collapse can complete lines for both players at once; the line whose
+ * newest mark is oldest wins
+ */
+export function checkQuantumWinner(quantum: QuantumState): {
+  winner: Player | null;
+  winningLine: WinningLine | null;
+} {
+  let best: {
+    winner: Player;
+    winningLine: WinningLine;
+    newest: number;
+  } | null = null;
+
+  for (const line of QUANTUM_LINES) {
+    const marks = line.map(([row, col]) => quantum.cells[row][col].classical);
+    const [first] = marks;
+    if (!first || marks.some((mark) => mark?.player !== first.player)) {
+      continue;
+    }
+
+    const newest = Math.max(...marks.map((mark) => mark!.move));
+    if (!best || newest < best.newest) {
+      best = { winner: first.player, winningLine: line, newest };
+    }
+  }
+
+  return best
+    ? { winner: best.winner, winningLine: best.winningLine }
+    : { winner: null, winningLine: null };
+}
+
+/**
+ * Checks if a quantum game is drawn (no line and no move left)
+ */
+export function isQuantumDraw(quantum: QuantumState): boolean {
+  return (
+    !checkQuantumWinner(quantum).winner &&
+    getQuantumAvailableMoves(quantum).length === 0
+  );
+}
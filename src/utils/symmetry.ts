@@ -0,0 +1,136 @@
+import { GameRules, Move, WinningLine } from "@/types/game";
+import { getWinningLines } from "@/utils/gameLogic";
+
+/**
+ * Board symmetries
+ *
+ * A square board looks the same after any of the 8 symmetries of the
+ * square (the 4 turns, each with or without a mirror), a rectangle after
+ * the 4 that keep its long side where it is. Positions that are images of
+ * each other under a symmetry are worth the same, provided the rules look
+ * the same too: every winning line has to land on a winning line and every
+ * blocked cell on a blocked cell, and with gravity only the left-right
+ * mirror keeps the floor at the bottom.
+ *
+ * A symmetry is a permutation of the cell indexes (row * width + col).
+ */
+
+export interface BoardSymmetry {
+  cells: Int32Array; // Image of each cell
+  inverse: Int32Array; // Cell each cell is the image of
+}
+
+// Position a cell moves to under each symmetry of the square, identity
+// first; the last four swap rows and columns (square boards only)
+const TRANSFORMS: ((
+  row: number,
+  col: number,
+  width: number,
+  height: number
+) => [number, number])[] = [
+  (row, col) => [row, col],
+  (row, col, width) => [row, width - 1 - col], // Left-right mirror
+  (row, col, _, height) => [height - 1 - row, col], // Top-bottom mirror
+  (row, col, width, height) => [height - 1 - row, width - 1 - col], // Half turn
+  (row, col) => [col, row], // Main diagonal mirror
+  (row, col, width, height) => [width - 1 - col, height - 1 - row], // Other diagonal
+  (row, col, _, height) => [col, height - 1 - row], // Quarter turn clockwise
+  (row, col, width) => [width - 1 - col, row], // Quarter turn anticlockwise
+];
+
+// Index of the left-right mirror in TRANSFORMS (the one gravity allows)
+const MIRROR_INDEX = 1;
+
+// Symmetries by the line list of a geometry (without gravity), each with
+// its index in TRANSFORMS
+const symmetriesCache = new WeakMap<
+  WinningLine[],
+  { symmetry: BoardSymmetry; transform: number }[]
+>();
+
+/**
+ * Gets the symmetries of a board under a rule set, identity first
+ * (worked out once per geometry)
+ */
+export function getBoardSymmetries(
+  width: number,
+  height: number,
+  rules?: GameRules
+): BoardSymmetry[] {
+  const lines = getWinningLines(width, height, rules);
+  let symmetries = symmetriesCache.get(lines);
+  if (!symmetries) {
+    symmetries = findSymmetries(width, height, lines, rules);
+    symmetriesCache.set(lines, symmetries);
+  }
+
+  return symmetries
+    .filter(
+      ({ transform }) =>
+        !rules?.gravity || transform === 0 || transform === MIRROR_INDEX
+    )
+    .map(({ symmetry }) => symmetry);
+}
+
+/**
+ * Works out which symmetries map the lines and blocked cells onto
+ * themselves
+ */
+function findSymmetries(
+  width: number,
+  height: number,
+  lines: WinningLine[],
+  rules?: GameRules
+): { symmetry: BoardSymmetry; transform: number }[] {
+  const lineKey = (cells: number[]) =>
+    [...cells].sort((a, b) => a - b).join(",");
+  const lineKeys = new Set(
+    lines.map((line) => lineKey(line.map(([row, col]) => row * width + col)))
+  );
+  const blocked = new Set(
+    (rules?.blockedCells ?? []).map(([row, col]) => row * width + col)
+  );
+  const transformCount = width === height ? TRANSFORMS.length : 4;
+  const symmetries: { symmetry: BoardSymmetry; transform: number }[] = [];
+
+  for (let transform = 0; transform < transformCount; transform++) {
+    const cells = new Int32Array(width * height);
+    const inverse = new Int32Array(width * height);
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        const [imageRow, imageCol] = TRANSFORMS[transform](
+          row,
+          col,
+          width,
+          height
+        );
+        const cell = row * width + col;
+        const image = imageRow * width + imageCol;
+        cells[cell] = image;
+        inverse[image] = cell;
+      }
+    }
+
+    const keepsBlocked = [...blocked].every((cell) => blocked.has(cells[cell]));
+    const keepsLines = lines.every((line) =>
+      lineKeys.has(lineKey(line.map(([row, col]) => cells[row * width + col])))
+    );
+    if (keepsBlocked && keepsLines) {
+      symmetries.push({ symmetry: { cells, inverse }, transform });
+    }
+  }
+
+  return symmetries;
+}
+
+/**
+ * Maps a move through a cell permutation (a symmetry or its inverse)
+ */
+export function transformMove(
+  move: Move,
+  permutation: Int32Array,
+  width: number
+): Move {
+  const image = permutation[move.row * width + move.col];
+  return { ...move, row: Math.floor(image / width), col: image % width };
+}
@@ -0,0 +1,541 @@
+import { Board, GameRules, Move, Player, WinningLine } from "@/types/game";
+import {
+  cloneBoard,
+  countSymbolsInLine,
+  getBoardDimensions,
+  getCellLines,
+  getOpponent,
+  getWinningLines,
+  isForbiddenMove,
+  isLineEmpty,
+  isOverline,
+  RENJU_RESTRICTED_PLAYER,
+} from "@/utils/gameLogic";
+
+/**
+ * Threat-space search for k-in-a-row
+ *
+ * A four is a line one mark short of complete with its last cell empty:
+ * the opponent has to fill that cell at once or lose, so a move making a
+ * four leaves them a single reply. A move making two fours at once (an
+ * open four) wins outright. Stringing fours together - each forced reply
+ * set, the attacker's next four made - until one of them is open is a
+ * victory by continuous fours (VCF), and the search only ever looks at the
+ * attacker's four-making moves, so it can go many moves deep.
+ *
+ * An open three is a move after which one more mark makes an open four.
+ * It is slower than a four (the opponent gets a free move), but its
+ * answers are few: the cells of the open fours it threatens, or a four of
+ * their own. A limited number of threes may be mixed in with the fours,
+ * every answer to each of them being searched.
+ *
+ * Renju rules are followed for X: it can't make forbidden moves (to attack
+ * or to block), and its lines only count when they are exactly full.
+ *
+ * With gravity only the lowest empty cell of a column can be marked, so a
+ * four threatens nothing until its last cell can be reached, and a move
+ * that lets the opponent complete a line on top of it is no threat.
+ */
+
+// Attacker moves a sequence may run to
+const MAX_THREAT_DEPTH = 12;
+
+// Open threes a sequence may contain (the rest are fours)
+const MAX_THREES = 2;
+
+export interface ThreatSearchLimits {
+  maxNodes: number; // Positions to search at most
+  deadline: number; // performance.now() time to stop by
+}
+
+export interface ThreatSearchResult {
+  moves: Move[]; // The attacker's moves of a winning line, first one now (empty if none)
+  nodes: number; // Positions searched
+}
+
+// Search state: a working copy of the board that marks are placed on and
+// taken back from in place
+interface ThreatSearch {
+  board: Board;
+  width: number;
+  lines: WinningLine[];
+  cellLines: number[][];
+  rules: GameRules;
+  limits: ThreatSearchLimits;
+  nodes: number;
+}
+
+/**
+ * Checks if a rule set is plain k-in-a-row for two (with or without
+ * gravity), which is all the threat search understands
+ */
+export function canSearchThreats(rules: GameRules): boolean {
+  return (
+    (rules.playerCount ?? 2) === 2 &&
+    !rules.misere &&
+    !rules.wild &&
+    !rules.maxMarks &&
+    !rules.numberTarget
+  );
+}
+
+/**
+ * Looks for a forced win for a player who is to move: fours only first,
+ * then fours mixed with open threes
+ */
+export function findThreatWin(
+  board: Board,
+  attacker: Player,
+  rules: GameRules,
+  limits: ThreatSearchLimits
+): ThreatSearchResult {
+  const search = createThreatSearch(board, rules, limits);
+  return { moves: findThreatSequence(search, attacker), nodes: search.nodes };
+}
+
+/**
+ * Looks for a defence against a forced win the opponent would have if the
+ * player to move passed
+ * Answers are tried from the opponent's winning line outwards, keeping
+ * the first one after which they no longer win by threats. `move` is null
+ * when there was nothing to defend against, and also when every answer
+ * still loses (or the budget ran out first), leaving the move to the
+ * regular search.
+ */
+export function findThreatDefence(
+  board: Board,
+  defender: Player,
+  rules: GameRules,
+  limits: ThreatSearchLimits
+): ThreatSearchResult & { move: Move | null } {
+  const search = createThreatSearch(board, rules, limits);
+  const attacker = getOpponent(defender);
+  const threat = findThreatSequence(search, attacker);
+  if (threat.length === 0) {
+    return { move: null, moves: [], nodes: search.nodes };
+  }
+
+  for (const cell of getDefenceCandidates(search, attacker, defender, threat)) {
+    if (isOutOfBudget(search)) break;
+    if (!canPlace(search, cell, defender)) continue;
+
+    placeCell(search, cell, defender);
+    const answer = findThreatSequence(search, attacker);
+    removeCell(search, cell);
+
+    if (answer.length === 0) {
+      return {
+        move: toMove(search, cell),
+        moves: threat,
+        nodes: search.nodes,
+      };
+    }
+  }
+
+  return {
+    move: null,
+    moves: threat,
+    nodes: search.nodes,
+  };
+}
+
+/**
+ * Sets up a search on a copy of the board
+ */
+function createThreatSearch(
+  board: Board,
+  rules: GameRules,
+  limits: ThreatSearchLimits
+): ThreatSearch {
+  const { width, height } = getBoardDimensions(board);
+  return {
+    board: cloneBoard(board),
+    width,
+    lines: getWinningLines(width, height, rules),
+    cellLines: getCellLines(width, height, rules),
+    rules,
+    limits,
+    nodes: 0,
+  };
+}
+
+/**
+ * Runs the search with fours only, then allowing open threes
+ */
+function findThreatSequence(search: ThreatSearch, attacker: Player): Move[] {
+  const defender = getOpponent(attacker);
+  for (let threes = 0; threes <= MAX_THREES; threes++) {
+    const cells = searchThreats(
+      search,
+      attacker,
+      defender,
+      MAX_THREAT_DEPTH,
+      threes
+    );
+    if (cells) {
+      return cells.map((cell) => toMove(search, cell));
+    }
+    if (isOutOfBudget(search)) break;
+  }
+  return [];
+}
+
+/**
+ * Searches the attacker's threats from a position where they are to move
+ * Returns the cells of their winning line, or null when no sequence
+ * within the depth and three allowance wins (or the budget ran out)
+ */
+function searchThreats(
+  search: ThreatSearch,
+  attacker: Player,
+  defender: Player,
+  depth: number,
+  threes: number
+): number[] | null {
+  search.nodes++;
+  if (isOutOfBudget(search)) return null;
+
+  const wins = getCompletingCells(search, attacker);
+  if (wins.length > 0) return [wins[0]];
+
+  // A four of the defender's has to be blocked first, and two can't be
+  const defenderWins = getCompletingCells(search, defender);
+  if (defenderWins.length > 1 || depth === 0) return null;
+
+  const candidates =
+    defenderWins.length === 1
+      ? defenderWins
+      : getThreatCandidates(search, attacker, threes > 0);
+
+  for (const cell of candidates) {
+    if (!canPlace(search, cell, attacker)) continue;
+
+    placeCell(search, cell, attacker);
+    const result = searchAfterThreat(
+      search,
+      attacker,
+      defender,
+      cell,
+      depth,
+      threes
+    );
+    removeCell(search, cell);
+
+    if (result) return [cell, ...result];
+  }
+
+  return null;
+}
+
+/**
+ * Searches the defender's answers to the attacker's move in a cell
+ * Returns the rest of the attacker's winning line, or null when the move
+ * was no threat or can be answered
+ */
+function searchAfterThreat(
+  search: ThreatSearch,
+  attacker: Player,
+  defender: Player,
+  cell: number,
+  depth: number,
+  threes: number
+): number[] | null {
+  // With gravity the move may have opened the cell above it to the
+  // defender's win
+  if (search.rules.gravity && getCompletingCells(search, defender).length > 0) {
+    return null;
+  }
+
+  const gains = getCompletingCellsThrough(search, cell, attacker);
+
+  // An open four: only one of its cells can be blocked
+  if (gains.length > 1) return [];
+
+  // A four: the defender has to block its cell, if they are allowed to
+  if (gains.length === 1) {
+    const [block] = gains;
+    if (!canPlace(search, block, defender)) return [];
+
+    placeCell(search, block, defender);
+    const rest = searchThreats(search, attacker, defender, depth - 1, threes);
+    removeCell(search, block);
+    return rest;
+  }
+
+  // An open three: every answer to it has to lose
+  if (threes === 0) return null;
+  const openFours = getOpenFourCells(search, cell, attacker);
+  if (openFours.length === 0) return null;
+
+  const answers = new Set<number>();
+  for (const openFour of openFours) {
+    answers.add(openFour);
+    placeCell(search, openFour, attacker);
+    for (const gain of getCompletingCellsThrough(search, openFour, attacker)) {
+      answers.add(gain);
+    }
+    removeCell(search, openFour);
+  }
+  for (const four of getFourCells(search, defender)) {
+    answers.add(four);
+  }
+
+  let line: number[] = [];
+  for (const answer of answers) {
+    if (!canPlace(search, answer, defender)) continue;
+
+    placeCell(search, answer, defender);
+    const rest = searchThreats(
+      search,
+      attacker,
+      defender,
+      depth - 1,
+      threes - 1
+    );
+    removeCell(search, answer);
+
+    if (!rest) return null;
+    if (line.length === 0) line = rest;
+  }
+  return line;
+}
+
+/**
+ * Gets the attacker's threatening moves: cells that make a four (each
+ * line two marks short with nothing of the opponent's in it), then with
+ * threes allowed the cells of lines three short that make an open three
+ */
+function getThreatCandidates(
+  search: ThreatSearch,
+  attacker: Player,
+  allowThrees: boolean
+): number[] {
+  const fours = getFourCells(search, attacker);
+  if (!allowThrees) return fours;
+
+  const threes = new Set<number>();
+  for (const line of getOpenLines(search, attacker, 3)) {
+    for (const cell of getEmptyCells(search, line)) {
+      if (fours.includes(cell) || threes.has(cell)) continue;
+
+      placeCell(search, cell, attacker);
+      if (getOpenFourCells(search, cell, attacker).length > 0) {
+        threes.add(cell);
+      }
+      removeCell(search, cell);
+    }
+  }
+  return [...fours, ...threes];
+}
+
+/**
+ * Gets the cells that make a four for a player
+ */
+function getFourCells(search: ThreatSearch, player: Player): number[] {
+  const cells = new Set<number>();
+  for (const line of getOpenLines(search, player, 2)) {
+    for (const cell of getEmptyCells(search, line)) {
+      cells.add(cell);
+    }
+  }
+  return [...cells];
+}
+
+/**
+ * Gets the cells that would give a player an open four, from the lines
+ * through their last move
+ */
+function getOpenFourCells(
+  search: ThreatSearch,
+  cell: number,
+  player: Player
+): number[] {
+  const cells = new Set<number>();
+  for (const index of search.cellLines[cell]) {
+    const line = search.lines[index];
+    if (!isOpenLine(search, line, player, 2)) continue;
+
+    for (const empty of getEmptyCells(search, line)) {
+      if (cells.has(empty) || !canPlace(search, empty, player)) continue;
+
+      placeCell(search, empty, player);
+      if (getCompletingCellsThrough(search, empty, player).length > 1) {
+        cells.add(empty);
+      }
+      removeCell(search, empty);
+    }
+  }
+  return [...cells];
+}
+
+/**
+ * Gets the answers worth trying against an opponent's winning line: its
+ * cells first, then the rest of the opponent's nearly full lines, then
+ * the defender's own fours
+ */
+function getDefenceCandidates(
+  search: ThreatSearch,
+  attacker: Player,
+  defender: Player,
+  threat: Move[]
+): number[] {
+  const cells = new Set<number>(
+    threat.map(({ row, col }) => row * search.width + col)
+  );
+  for (const line of getOpenLines(search, attacker, 3)) {
+    for (const cell of getEmptyCells(search, line)) {
+      cells.add(cell);
+    }
+  }
+  for (const cell of getFourCells(search, defender)) {
+    cells.add(cell);
+  }
+  return [...cells];
+}
+
+/**
+ * Gets the cells that complete a line for a player right away
+ */
+function getCompletingCells(search: ThreatSearch, player: Player): number[] {
+  const cells = new Set<number>();
+  for (const line of getOpenLines(search, player, 1)) {
+    const [cell] = getEmptyCells(search, line);
+    if (completesAt(search, cell, player)) {
+      cells.add(cell);
+    }
+  }
+  return [...cells];
+}
+
+/**
+ * Gets the cells that complete a line through a cell for the player who
+ * has just marked it
+ */
+function getCompletingCellsThrough(
+  search: ThreatSearch,
+  cell: number,
+  player: Player
+): number[] {
+  const cells = new Set<number>();
+  for (const index of search.cellLines[cell]) {
+    const line = search.lines[index];
+    if (!isOpenLine(search, line, player, 1)) continue;
+
+    const [empty] = getEmptyCells(search, line);
+    if (completesAt(search, empty, player)) {
+      cells.add(empty);
+    }
+  }
+  return [...cells];
+}
+
+/**
+ * Checks if a player's mark in a cell would win (an exact line for X
+ * under Renju rules)
+ */
+function completesAt(
+  search: ThreatSearch,
+  cell: number,
+  player: Player
+): boolean {
+  if (!canPlace(search, cell, player)) return false;
+  if (!search.rules.renju || player !== RENJU_RESTRICTED_PLAYER) return true;
+
+  placeCell(search, cell, player);
+  const completes = search.cellLines[cell].some((index) => {
+    const line = search.lines[index];
+    return (
+      countSymbolsInLine(search.board, line, player) === line.length &&
+      !isOverline(search.board, line)
+    );
+  });
+  removeCell(search, cell);
+  return completes;
+}
+
+/**
+ * Gets the lines a player is a given number of marks short of, with none
+ * of the opponent's marks in them
+ */
+function getOpenLines(
+  search: ThreatSearch,
+  player: Player,
+  missing: number
+): WinningLine[] {
+  return search.lines.filter((line) =>
+    isOpenLine(search, line, player, missing)
+  );
+}
+
+/**
+ * Checks if a line holds nothing but a player's marks, a given number
+ * short of full
+ */
+function isOpenLine(
+  search: ThreatSearch,
+  line: WinningLine,
+  player: Player,
+  missing: number
+): boolean {
+  const own = countSymbolsInLine(search.board, line, player);
+  if (own !== line.length - missing) return false;
+
+  return own === 0
+    ? isLineEmpty(search.board, line)
+    : countSymbolsInLine(search.board, line, getOpponent(player)) === 0;
+}
+
+/**
+ * Gets the empty cells of a line
+ */
+function getEmptyCells(search: ThreatSearch, line: WinningLine): number[] {
+  return line
+    .filter(([row, col]) => search.board[row][col] === null)
+    .map(([row, col]) => row * search.width + col);
+}
+
+/**
+ * Checks if a player may put a mark in an empty cell (the lowest empty
+ * one of its column with gravity; X's forbidden moves are out under Renju
+ * rules)
+ */
+function canPlace(search: ThreatSearch, cell: number, player: Player): boolean {
+  const row = Math.floor(cell / search.width);
+  const col = cell % search.width;
+  if (search.board[row][col] !== null) return false;
+  if (
+    search.rules.gravity &&
+    row < search.board.length - 1 &&
+    search.board[row + 1][col] === null
+  ) {
+    return false;
+  }
+
+  return (
+    !search.rules.renju ||
+    player !== RENJU_RESTRICTED_PLAYER ||
+    !isForbiddenMove(search.board, row, col, search.rules)
+  );
+}
+
+function placeCell(search: ThreatSearch, cell: number, player: Player): void {
+  search.board[Math.floor(cell / search.width)][cell % search.width] = player;
+}
+
+function removeCell(search: ThreatSearch, cell: number): void {
+  search.board[Math.floor(cell / search.width)][cell % search.width] = null;
+}
+
+function toMove(search: ThreatSearch, cell: number): Move {
+  return { row: Math.floor(cell / search.width), col: cell % search.width };
+}
+
+/**
+ * Checks if the search has used up its positions or time
+ */
+function isOutOfBudget(search: ThreatSearch): boolean {
+  return (
+    search.nodes >= search.limits.maxNodes ||
+    performance.now() > search.limits.deadline
+  );
+}
@@ -0,0 +1,212 @@
+import { Cell, Move, Player, UltimateBoard, WinningLine } from "@/types/game";
+import {
+  checkWinner,
+  cloneBoard,
+  createEmptyBoard,
+  isBoardFull,
+} from "@/utils/gameLogic";
+
+/**
+ * Game logic utilities for Ultimate Tic-Tac-Toe
+ *
+ * Nine 3x3 small boards sit inside a 3x3 meta board. Moves use global 9x9
+ * coordinates, and the cell a move is played in decides which small board
+ * the opponent has to play in next.
+ */
+
+// Side length of the full grid (3 small boards of 3 cells)
+export const ULTIMATE_GRID_SIZE = 9;
+
+/**
+ * Creates an empty Ultimate board (first move may go anywhere)
+ */
+export function createEmptyUltimateBoard(): UltimateBoard {
+  return {
+    boards: Array(9)
+      .fill(null)
+      .map(() => createEmptyBoard(3)),
+    metaBoard: createEmptyBoard(3),
+    activeBoard: null,
+  };
+}
+
+/**
+ * Creates a deep copy of an Ultimate board
+ */
+export function cloneUltimateBoard(ultimate: UltimateBoard): UltimateBoard {
+  return {
+    boards: ultimate.boards.map(cloneBoard),
+    metaBoard: cloneBoard(ultimate.metaBoard),
+    activeBoard: ultimate.activeBoard,
+  };
+}
+
+/**
+ * Gets the index of the small board that contains a global cell
+ */
+export function getSubBoardIndex(row: number, col: number): number {
+  return Math.floor(row / 3) * 3 + Math.floor(col / 3);
+}
+
+/**
+ * Gets the content of a cell by its global coordinates
+ */
+export function getUltimateCell(
+  ultimate: UltimateBoard,
+  row: number,
+  col: number
+): Cell {
+  return ultimate.boards[getSubBoardIndex(row, col)][row % 3][col % 3];
+}
+
+/**
+ * Checks if a small board can still be played in (not won and not full)
+ */
+export function isSubBoardOpen(
+  ultimate: UltimateBoard,
+  index: number
+): boolean {
+  const metaRow = Math.floor(index / 3);
+  const metaCol = index % 3;
+  return (
+    ultimate.metaBoard[metaRow][metaCol] === null &&
+    !isBoardFull(ultimate.boards[index])
+  );
+}
+
+/**
+ * Gets the small boards the next move may be played in
+ */
+export function getPlayableSubBoards(ultimate: UltimateBoard): number[] {
+  if (checkUltimateWinner(ultimate).winner) {
+    return [];
+  }
+
+  if (
+    ultimate.activeBoard !== null &&
+    isSubBoardOpen(ultimate, ultimate.activeBoard)
+  ) {
+    return [ultimate.activeBoard];
+  }
+
+  const playable: number[] = [];
+  for (let index = 0; index < 9; index++) {
+    if (isSubBoardOpen(ultimate, index)) {
+      playable.push(index);
+    }
+  }
+  return playable;
+}
+
+/**
+ * Checks if a global cell is a legal move
+ */
+export function isValidUltimateMove(
+  ultimate: UltimateBoard,
+  row: number,
+  col: number
+): boolean {
+  if (
+    row < 0 ||
+    row >= ULTIMATE_GRID_SIZE ||
+    col < 0 ||
+    col >= ULTIMATE_GRID_SIZE
+  ) {
+    return false;
+  }
+
+  return (
+    getPlayableSubBoards(ultimate).includes(getSubBoardIndex(row, col)) &&
+    getUltimateCell(ultimate, row, col) === null
+  );
+}
+
+/**
+ * Gets all legal moves (global coordinates)
+ */
+export function getUltimateAvailableMoves(ultimate: UltimateBoard): Move[] {
+  const moves: Move[] = [];
+
+  for (const index of getPlayableSubBoards(ultimate)) {
+    const baseRow = Math.floor(index / 3) * 3;
+    const baseCol = (index % 3) * 3;
+    const board = ultimate.boards[index];
+
+    for (let row = 0; row < 3; row++) {
+      for (let col = 0; col < 3; col++) {
+        if (board[row][col] === null) {
+          moves.push({ row: baseRow + row, col: baseCol + col });
+        }
+      }
+    }
+  }
+
+  return moves;
+}
+
+/**
+ * Makes a move (returns new board, doesn't mutate)
+ * Wins the small board when it completes a line there, and sends the
+ * opponent to the small board matching the cell that was played
+ */
+export function makeUltimateMove(
+  ultimate: UltimateBoard,
+  row: number,
+  col: number,
+  player: Player
+): UltimateBoard {
+  if (!isValidUltimateMove(ultimate, row, col)) {
+    throw new Error(`Invalid move: position [${row}, ${col}] is not available`);
+  }
+
+  const next = cloneUltimateBoard(ultimate);
+  const index = getSubBoardIndex(row, col);
+  const board = next.boards[index];
+  board[row % 3][col % 3] = player;
+
+  const { winner } = checkWinner(board);
+  if (winner) {
+    next.metaBoard[Math.floor(index / 3)][index % 3] = winner;
+  }
+
+  const targetIndex = (row % 3) * 3 + (col % 3);
+  next.activeBoard = isSubBoardOpen(next, targetIndex) ? targetIndex : null;
+
+  return next;
+}
+
+/**
+ * Checks the meta board for a winner
+ * The winning line holds meta coordinates ([metaRow, metaCol] of small boards)
+ */
+export function checkUltimateWinner(ultimate: UltimateBoard): {
+  winner: Player | null;
+  winningLine: WinningLine | null;
+} {
+  return checkWinner(ultimate.metaBoard);
+}
+
+/**
+ * Checks if the game is drawn (no winner and no small board left to play)
+ */
+export function isUltimateDraw(ultimate: UltimateBoard): boolean {
+  if (checkUltimateWinner(ultimate).winner) {
+    return false;
+  }
+
+  for (let index = 0; index < 9; index++) {
+    if (isSubBoardOpen(ultimate, index)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Checks if the game is over (win or draw)
+ */
+export function isUltimateGameOver(ultimate: UltimateBoard): boolean {
+  return (
+    checkUltimateWinner(ultimate).winner !== null || isUltimateDraw(ultimate)
+  );
+}
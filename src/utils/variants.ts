@@ -0,0 +1,650 @@
+import {
+  BoardSize,
+  CubeSize,
+  GameHistory,
+  GameMode,
+  GameRules,
+  GameSettings,
+  GameVariant,
+  MoveResult,
+  RuleVariant,
+  RuleVariantId,
+  PLAYER_X,
+} from "@/types/game";
+import {
+  checkLastMove,
+  clampWinLength,
+  getDefaultWinLength,
+  createEmptyBoard,
+  getAvailableMoves,
+  getAvailableNumbers,
+  getNextPlayer,
+  getNumberTarget,
+  isBoardFull,
+  isRepetitionDraw,
+  makeSlidingMove,
+} from "@/utils/gameLogic";
+import {
+  checkUltimateWinner,
+  createEmptyUltimateBoard,
+  isUltimateDraw,
+  makeUltimateMove,
+  ULTIMATE_GRID_SIZE,
+} from "@/utils/ultimateLogic";
+import {
+  checkCubeWinner,
+  createEmptyCube,
+  isCubeFull,
+  makeCubeMove,
+} from "@/utils/cubeLogic";
+import {
+  checkQuantumWinner,
+  createEmptyQuantumState,
+  getClassicalBoard,
+  isQuantumDraw,
+  makeQuantumMove,
+  QUANTUM_BOARD_SIZE,
+} from "@/utils/quantumLogic";
+import { getBlockedCells } from "@/utils/boardShapes";
+import { isSwap2Available } from "@/utils/openingRules";
+import { aiEngine } from "@/utils/aiEngine";
+
+/**
+ * Game variant registry
+ *
+ * A game variant owns a board (the classic grid, Ultimate's nine boards or
+ * the 3D cube) and defines how a game on it starts, how moves are played
+ * and how the AI answers. Rule variants such as misère or gravity are
+ * layered on the classic grid: each says when it is switched on, what it
+ * combines with and how it changes the rules.
+ *
+ * A game is identified by its variant id: the game variant followed by the
+ * rule variants in play, e.g. "classic+gravity+misere".
+ */
+
+const gameVariants = new Map<GameMode, GameVariant>();
+const ruleVariants: RuleVariant[] = [];
+
+/**
+ * Adds a game variant to the registry (replacing one with the same id)
+ */
+export function registerGameVariant(variant: GameVariant): void {
+  gameVariants.set(variant.id, variant);
+}
+
+/**
+ * Adds a rule variant to the registry
+ * Rule variants apply in registration order, so later ones can build on
+ * the rules set by earlier ones
+ */
+export function registerRuleVariant(variant: RuleVariant): void {
+  const index = ruleVariants.findIndex(({ id }) => id === variant.id);
+  if (index >= 0) {
+    ruleVariants[index] = variant;
+  } else {
+    ruleVariants.push(variant);
+  }
+}
+
+/**
+ * Gets a game variant by id
+ */
+export function getGameVariant(id: GameMode): GameVariant {
+  const variant = gameVariants.get(id);
+  if (!variant) {
+    throw new Error(`Unknown game variant: ${id}`);
+  }
+  return variant;
+}
+
+/**
+ * Gets every registered game variant (in registration order)
+ */
+export function getGameVariants(): GameVariant[] {
+  return [...gameVariants.values()];
+}
+
+/**
+ * Gets a rule variant by id
+ */
+export function getRuleVariant(id: RuleVariantId): RuleVariant {
+  const variant = ruleVariants.find((ruleVariant) => ruleVariant.id === id);
+  if (!variant) {
+    throw new Error(`Unknown rule variant: ${id}`);
+  }
+  return variant;
+}
+
+/**
+ * Checks if a rule variant can be switched on with the other settings
+ */
+export function isRuleVariantAvailable(
+  id: RuleVariantId,
+  settings: GameSettings
+): boolean {
+  return (
+    getGameVariant(settings.gameMode).supportsRuleVariants &&
+    getRuleVariant(id).isAvailable(settings)
+  );
+}
+
+/**
+ * Gets the rule variants in play for the settings
+ */
+export function getActiveRuleVariants(settings: GameSettings): RuleVariant[] {
+  return ruleVariants.filter(
+    (variant) =>
+      variant.isEnabled(settings) &&
+      isRuleVariantAvailable(variant.id, settings)
+  );
+}
+
+/**
+ * Builds the rule set for a new game from the user's settings
+ */
+export function getGameRules(settings: GameSettings): GameRules {
+  return getActiveRuleVariants(settings).reduce(
+    (rules, variant) => variant.applyRules(rules, settings),
+    getGameVariant(settings.gameMode).getRules(settings)
+  );
+}
+
+/**
+ * Gets the variant id of a game played with the settings
+ */
+export function getVariantId(settings: GameSettings): string {
+  return [
+    settings.gameMode,
+    ...getActiveRuleVariants(settings).map(({ id }) => id),
+  ].join("+");
+}
+
+/**
+ * Splits a variant id into its game variant and rule variants
+ * Returns null for ids naming variants that aren't registered
+ */
+export function parseVariantId(
+  id: string
+): { game: GameVariant; rules: RuleVariant[] } | null {
+  const [gameId, ...ruleIds] = id.split("+");
+  const game = gameVariants.get(gameId as GameMode);
+  const rules = ruleIds.map((ruleId) =>
+    ruleVariants.find((variant) => variant.id === ruleId)
+  );
+
+  if (!game || rules.some((variant) => variant === undefined)) {
+    return null;
+  }
+  return { game, rules: rules as RuleVariant[] };
+}
+
+/**
+ * Replays a saved game move by move and returns the final result
+ * Returns null for games saved without replay data or with variants
+ * that are no longer registered
+ */
+export function replayGame(entry: GameHistory): MoveResult | null {
+  const parsed = entry.variant ? parseVariantId(entry.variant) : null;
+  if (!parsed || !entry.rules || !entry.boardWidth || !entry.boardHeight) {
+    return null;
+  }
+
+  const { game } = parsed;
+  const rules = entry.rules;
+  let position = game.createPosition(
+    entry.boardWidth,
+    entry.boardHeight,
+    rules
+  );
+  let result: MoveResult = {
+    ...position,
+    cubeWinningLine: null,
+    gameStatus: "playing",
+    winner: null,
+    winningLine: null,
+    lineStats: null,
+  };
+  let player = PLAYER_X;
+
+  entry.moves.forEach((move, index) => {
+    result = game.applyMove(
+      position,
+      move,
+      player,
+      entry.moves.slice(0, index),
+      rules
+    );
+    position = result;
+    // Quantum collapses are chosen by the player about to move
+    if (!move.collapse) {
+      player = getNextPlayer(player, rules);
+    }
+  });
+
+  return result;
+}
+
+// Game variants
+
+registerGameVariant({
+  id: "classic",
+  name: "Classic",
+  description: "Tic-tac-toe on a single grid of 3 to 10 cells a side",
+  supportsRuleVariants: true,
+  getBoardSize: (settings) => ({
+    width: settings.boardWidth,
+    height: settings.boardHeight,
+  }),
+  // A full line along the shorter side unless k-in-a-row says otherwise
+  getRules: (settings) => ({
+    winLength: getDefaultWinLength(settings.boardWidth, settings.boardHeight),
+    misere: false,
+    gravity: false,
+    wild: false,
+    toroidal: false,
+  }),
+  createPosition: (width, height, rules) => ({
+    board: createEmptyBoard(width, height, rules.blockedCells),
+    ultimateBoard: null,
+    cube: null,
+    quantum: null,
+  }),
+  applyMove: (position, move, player, moves, rules) => {
+    const { row, col } = move;
+    const symbol = rules.wild ? move.symbol ?? player : player;
+
+    // Numerical games place a number from the player's own inventory
+    const { numberTarget } = rules;
+    if (
+      numberTarget &&
+      (move.value === undefined ||
+        !getAvailableNumbers(position.board, player).includes(move.value))
+    ) {
+      throw new Error(
+        `Invalid move: number ${move.value} is not available to ${player}`
+      );
+    }
+    const mark = numberTarget ? move.value! : symbol;
+
+    // In sliding games this also removes the player's oldest mark
+    const board = makeSlidingMove(
+      position.board,
+      moves,
+      row,
+      col,
+      player,
+      mark,
+      rules
+    );
+    const { winner, winningLine, lineStats } = checkLastMove(
+      board,
+      row,
+      col,
+      player,
+      rules
+    );
+    // Under Renju rules X can run out of allowed moves before the board
+    // fills up
+    const isDraw =
+      !winner &&
+      (isBoardFull(board) ||
+        isRepetitionDraw([...moves, move], rules) ||
+        (rules.renju && getAvailableMoves(board, rules).length === 0));
+
+    return {
+      board,
+      ultimateBoard: null,
+      cube: null,
+      quantum: null,
+      cubeWinningLine: null,
+      gameStatus: winner ? "won" : isDraw ? "draw" : "playing",
+      winner,
+      winningLine,
+      lineStats,
+    };
+  },
+  getAIMove: (position, player, difficulty, algorithm, rules, moves) =>
+    aiEngine.getBestMove(
+      position.board,
+      player,
+      difficulty,
+      rules,
+      moves,
+      algorithm
+    ),
+});
+
+registerGameVariant({
+  id: "ultimate",
+  name: "Ultimate",
+  description:
+    "Nine 3x3 boards inside a 3x3 meta board - the cell you play picks your opponent's board",
+  supportsRuleVariants: false,
+  getBoardSize: () => ({
+    width: ULTIMATE_GRID_SIZE as BoardSize,
+    height: ULTIMATE_GRID_SIZE as BoardSize,
+  }),
+  getRules: () => ({
+    winLength: 3,
+    misere: false,
+    gravity: false,
+    wild: false,
+  }),
+  createPosition: (width, height) => ({
+    board: createEmptyBoard(width, height),
+    ultimateBoard: createEmptyUltimateBoard(),
+    cube: null,
+    quantum: null,
+  }),
+  applyMove: (position, move, player) => {
+    if (!position.ultimateBoard) {
+      throw new Error("Invalid position: no Ultimate board");
+    }
+
+    const ultimateBoard = makeUltimateMove(
+      position.ultimateBoard,
+      move.row,
+      move.col,
+      player
+    );
+    const { winner, winningLine } = checkUltimateWinner(ultimateBoard);
+    const isDraw = !winner && isUltimateDraw(ultimateBoard);
+
+    return {
+      board: position.board,
+      ultimateBoard,
+      cube: null,
+      quantum: null,
+      cubeWinningLine: null,
+      gameStatus: winner ? "won" : isDraw ? "draw" : "playing",
+      winner,
+      winningLine,
+      lineStats: null,
+    };
+  },
+  getAIMove: (position, player, difficulty, algorithm) =>
+    aiEngine.getBestUltimateMove(
+      position.ultimateBoard!,
+      player,
+      difficulty,
+      algorithm
+    ),
+});
+
+registerGameVariant({
+  id: "cube",
+  name: "3D",
+  description:
+    "A 3x3x3 or 4x4x4 cube - lines run through the layers and along the space diagonals",
+  supportsRuleVariants: false,
+  getBoardSize: (settings) => ({
+    width: settings.cubeSize,
+    height: settings.cubeSize,
+  }),
+  getRules: () => ({
+    winLength: 3,
+    misere: false,
+    gravity: false,
+    wild: false,
+  }),
+  createPosition: (width, height) => ({
+    board: createEmptyBoard(width, height),
+    ultimateBoard: null,
+    cube: createEmptyCube(width as CubeSize),
+    quantum: null,
+  }),
+  applyMove: (position, move, player) => {
+    if (!position.cube) {
+      throw new Error("Invalid position: no cube");
+    }
+
+    const cube = makeCubeMove(
+      position.cube,
+      move.layer ?? 0,
+      move.row,
+      move.col,
+      player
+    );
+    const { winner, winningLine } = checkCubeWinner(cube);
+    const isDraw = !winner && isCubeFull(cube);
+
+    return {
+      board: position.board,
+      ultimateBoard: null,
+      cube,
+      quantum: null,
+      cubeWinningLine: winningLine,
+      gameStatus: winner ? "won" : isDraw ? "draw" : "playing",
+      winner,
+      winningLine: null,
+      lineStats: null,
+    };
+  },
+  getAIMove: (position, player, difficulty, algorithm) =>
+    aiEngine.getBestCubeMove(position.cube!, player, difficulty, algorithm),
+});
+
+registerGameVariant({
+  id: "quantum",
+  name: "Quantum",
+  description:
+    "Each move puts a spooky mark in two cells - closing a cycle of entangled cells makes the other player collapse it",
+  supportsRuleVariants: false,
+  getBoardSize: () => ({
+    width: QUANTUM_BOARD_SIZE as BoardSize,
+    height: QUANTUM_BOARD_SIZE as BoardSize,
+  }),
+  getRules: () => ({
+    winLength: 3,
+    misere: false,
+    gravity: false,
+    wild: false,
+  }),
+  createPosition: (width) => {
+    const quantum = createEmptyQuantumState(width);
+    return {
+      board: getClassicalBoard(quantum),
+      ultimateBoard: null,
+      cube: null,
+      quantum,
+    };
+  },
+  applyMove: (position, move, player) => {
+    if (!position.quantum) {
+      throw new Error("Invalid position: no quantum board");
+    }
+
+    const quantum = makeQuantumMove(position.quantum, move, player);
+    const { winner, winningLine } = checkQuantumWinner(quantum);
+    const isDraw = !winner && isQuantumDraw(quantum);
+
+    return {
+      board: getClassicalBoard(quantum),
+      ultimateBoard: null,
+      cube: null,
+      quantum,
+      cubeWinningLine: null,
+      gameStatus: winner ? "won" : isDraw ? "draw" : "playing",
+      winner,
+      winningLine,
+      lineStats: null,
+    };
+  },
+  getAIMove: (position, player, difficulty, algorithm) =>
+    aiEngine.getBestQuantumMove(
+      position.quantum!,
+      player,
+      difficulty,
+      algorithm
+    ),
+});
+
+// Rule variants (applied in this order)
+
+// Renju restrictions only make sense for Gomoku-style games
+const RENJU_WIN_LENGTH = 5;
+
+// Misère, wild, sliding and numerical rules are built around two sides
+// (one loser, shared symbols, move parity, odd against even)
+const isTwoPlayer = (settings: GameSettings) => settings.playerCount === 2;
+
+registerRuleVariant({
+  id: "k-in-a-row",
+  name: "K in a Row",
+  description:
+    "A line of another length than the shorter side wins (e.g. 5 on 10x10)",
+  isEnabled: (settings) =>
+    clampWinLength(
+      settings.winLength,
+      settings.boardWidth,
+      settings.boardHeight
+    ) !== getDefaultWinLength(settings.boardWidth, settings.boardHeight),
+  isAvailable: () => true,
+  applyRules: (rules, settings) => ({
+    ...rules,
+    winLength: clampWinLength(
+      settings.winLength,
+      settings.boardWidth,
+      settings.boardHeight
+    ),
+  }),
+});
+
+registerRuleVariant({
+  id: "misere",
+  name: "Misère",
+  description: "Completing a line loses",
+  isEnabled: (settings) => settings.misere,
+  isAvailable: isTwoPlayer,
+  applyRules: (rules) => ({ ...rules, misere: true }),
+});
+
+registerRuleVariant({
+  id: "gravity",
+  name: "Gravity",
+  description: "Marks drop to the lowest empty cell of a column",
+  isEnabled: (settings) => settings.gravity,
+  isAvailable: () => true,
+  applyRules: (rules) => ({ ...rules, gravity: true }),
+});
+
+registerRuleVariant({
+  id: "wild",
+  name: "Wild",
+  description: "Either player may place X or O",
+  isEnabled: (settings) => settings.wild,
+  // Numbers belong to a fixed player, so numerical games can't be wild
+  isAvailable: (settings) => !settings.numerical && isTwoPlayer(settings),
+  applyRules: (rules) => ({ ...rules, wild: true }),
+});
+
+registerRuleVariant({
+  id: "sliding",
+  name: "Sliding",
+  description: "Each player keeps only as many marks as a line needs",
+  isEnabled: (settings) => settings.sliding,
+  // Removing marks would leave floating pieces under gravity, and numbers
+  // are used once
+  isAvailable: (settings) =>
+    !settings.gravity && !settings.numerical && isTwoPlayer(settings),
+  applyRules: (rules) => ({ ...rules, maxMarks: rules.winLength }),
+});
+
+registerRuleVariant({
+  id: "numerical",
+  name: "Numerical",
+  description:
+    "X places odd numbers, O even ones - a line hitting the target sum wins",
+  isEnabled: (settings) => settings.numerical,
+  isAvailable: isTwoPlayer,
+  applyRules: (rules, settings) => ({
+    ...rules,
+    numberTarget: getNumberTarget(
+      settings.boardWidth,
+      settings.boardHeight,
+      rules.winLength
+    ),
+  }),
+});
+
+registerRuleVariant({
+  id: "toroidal",
+  name: "Toroidal",
+  description: "Lines wrap around the board edges",
+  isEnabled: (settings) => settings.toroidal,
+  isAvailable: () => true,
+  applyRules: (rules) => ({ ...rules, toroidal: true }),
+});
+
+registerRuleVariant({
+  id: "shaped",
+  name: "Board Shape",
+  description: "Blocked cells break every line through them",
+  isEnabled: (settings) => settings.boardShape !== "full",
+  // Marks can't drop past an obstacle
+  isAvailable: (settings) => !settings.gravity,
+  applyRules: (rules, settings) => ({
+    ...rules,
+    blockedCells: getBlockedCells(
+      settings.boardWidth,
+      settings.boardHeight,
+      settings.boardShape,
+      settings.obstacleSeed
+    ),
+  }),
+});
+
+registerRuleVariant({
+  id: "multiplayer",
+  name: "Three or Four Players",
+  description: "Δ and □ join X and O, taking turns in that order",
+  isEnabled: (settings) => settings.playerCount > 2,
+  isAvailable: () => true,
+  applyRules: (rules, settings) => ({
+    ...rules,
+    playerCount: settings.playerCount,
+  }),
+});
+
+registerRuleVariant({
+  id: "swap",
+  name: "Swap Rule",
+  description:
+    "The second player may take over the opening - pie rule or Swap2 on larger boards",
+  // Swap2 only counts on boards big enough for it
+  isEnabled: (settings) =>
+    settings.swapRule === "pie" ||
+    (settings.swapRule === "swap2" &&
+      isSwap2Available(settings.boardWidth, settings.boardHeight)),
+  // Sides must own their marks: wild symbols and numbers are shared out
+  // by the rules, not by who placed them
+  isAvailable: (settings) =>
+    isTwoPlayer(settings) && !settings.wild && !settings.numerical,
+  applyRules: (rules, settings) => ({
+    ...rules,
+    swapRule: settings.swapRule === "swap2" ? "swap2" : "pie",
+  }),
+});
+
+registerRuleVariant({
+  id: "renju",
+  name: "Renju",
+  description:
+    "X's lines must be exactly long enough - overlines don't count - and X may not make a double three or double four",
+  isEnabled: (settings) => settings.renju,
+  // The restrictions are about straight lines of five owned by one side,
+  // and misère would turn them into help
+  isAvailable: (settings) =>
+    isTwoPlayer(settings) &&
+    !settings.misere &&
+    !settings.wild &&
+    !settings.sliding &&
+    !settings.numerical &&
+    !settings.toroidal &&
+    clampWinLength(
+      settings.winLength,
+      settings.boardWidth,
+      settings.boardHeight
+    ) >= RENJU_WIN_LENGTH,
+  applyRules: (rules) => ({ ...rules, renju: true }),
+});